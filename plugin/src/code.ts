@@ -7,6 +7,97 @@ interface CommandMessage {
   id: string;
   tool: string;
   params: Record<string, unknown>;
+  // Epoch ms after which the server has given up on the command.
+  deadline?: number;
+  turnId?: string;
+}
+
+interface BatchStep {
+  tool: string;
+  params?: Record<string, unknown>;
+}
+
+interface BatchContext {
+  created: SceneNode[];
+}
+
+interface NodeSnapshot {
+  id: string;
+  name: string;
+  parentId: string | null;
+  index: number;
+  props: Record<string, unknown>;
+  text?: TextSnapshot;
+  bindings?: Record<string, string>;
+  modes?: Record<string, string>;
+  instance?: InstanceSnapshot;
+  propertyDefinitions?: ComponentPropertyDefinitions;
+}
+
+interface InstanceSnapshot {
+  mainComponentId: string | null;
+  properties: Record<string, string | boolean>;
+  overridden: boolean;
+}
+
+interface PageSnapshot {
+  name: string;
+  flowStartingPoints: Array<{ nodeId: string; name: string }>;
+}
+
+type StyleSnapshot = Record<string, unknown>;
+
+type TextSegmentField =
+  | "fontName"
+  | "fontSize"
+  | "fills"
+  | "textDecoration"
+  | "textCase"
+  | "letterSpacing"
+  | "lineHeight"
+  | "textStyleId";
+
+interface TextSnapshot {
+  characters: string;
+  segments: Array<Pick<StyledTextSegment, TextSegmentField | "start" | "end">>;
+}
+
+interface ProvenanceStamp {
+  turnId: string | null;
+  provider: string;
+  model: string | null;
+  tool: string;
+  timestamp: string;
+}
+
+interface ProvenanceRecord {
+  created?: ProvenanceStamp;
+  modified?: ProvenanceStamp;
+}
+
+interface CommandScope {
+  tool: string;
+  touched: Map<string, { node: SceneNode; snapshot: NodeSnapshot }>;
+  placed?: Record<string, unknown>;
+  batch?: BatchContext;
+  // The chat turn this command belongs to; MCP calls that arrive mid-turn run with none.
+  turn: TurnRecord | null;
+}
+
+type PlacementMode = (typeof PLACEMENT_MODES)[number];
+
+type TurnAsset = Variable | VariableCollection | BaseStyle | PageNode;
+
+interface TurnRecord {
+  id: string;
+  provider: string;
+  model: string | null;
+  created: SceneNode[];
+  createdAssets: TurnAsset[];
+  snapshots: Map<string, NodeSnapshot>;
+  pageSnapshots: Map<string, PageSnapshot>;
+  styleSnapshots: Map<string, StyleSnapshot>;
+  deleted: Array<{ id: string; name: string }>;
 }
 
 type AutoLayoutNode = FrameNode | ComponentNode;
@@ -14,18 +105,45 @@ type FillableNode = SceneNode & {
   fills: ReadonlyArray<Paint> | PluginAPI["mixed"];
 };
 
-figma.ui.onmessage = async (msg: CommandMessage) => {
-  if (msg.type !== "command") return;
+const STEP_REF_PATTERN = /^\$step(\d+)(?:\.(.+))?$/;
+const TURN_HISTORY_LIMIT = 20;
+const PLACEMENT_MODES = ["auto", "inside", "after", "below", "absolute"] as const;
+const PLACEMENT_CANVAS_GAP = 80;
+const PLACEMENT_FRAME_GAP = 24;
+const PROVENANCE_NAMESPACE = "cursorcanvas";
+const PROVENANCE_KEY = "provenance";
+// Tools that only read the document; audit fixes track the nodes they change themselves.
+const READ_ONLY_TOOLS = new Set([
+  "get_node_tree", "get_selection", "get_editor_info", "export_node", "find_nodes", "audit_design",
+  "audit_accessibility", "list_variables", "list_styles", "list_pages", "list_agent_nodes",
+]);
 
-  const { id, tool, params } = msg;
+let activeTurn: TurnRecord | null = null;
+const turnHistory: TurnRecord[] = [];
+let activeCommand: CommandScope | null = null;
+// Ids of nodes and styles commands created, changed or deleted, so documentchange events can be attributed to them.
+const agentChangeIds = new Set<string>();
 
-  try {
-    const result = await handleCommand(tool, params);
-    figma.ui.postMessage({ type: "result", id, result });
-  } catch (err) {
-    const error = err instanceof Error ? err.message : String(err);
-    figma.ui.postMessage({ type: "error", id, error });
-  }
+// Commands run one at a time so a batch, turn or command scope only ever sees its own nodes.
+let commandQueue: Promise<void> = Promise.resolve();
+
+figma.ui.onmessage = (msg: CommandMessage) => {
+  if (msg.type !== "command") return;
+
+  const { id, tool, params, deadline, turnId } = msg;
+  commandQueue = commandQueue.then(async () => {
+    try {
+      // Running a command the server already reported as timed out would duplicate the agent's retry.
+      if (deadline != null && Date.now() >= deadline) {
+        throw new Error(`${tool} timed out waiting behind earlier commands and was not run.`);
+      }
+      const result = await runCommand(tool, params, turnId);
+      figma.ui.postMessage({ type: "result", id, result });
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      figma.ui.postMessage({ type: "error", id, error });
+    }
+  });
 };
 
 function numberParam(params: Record<string, unknown>, key: string): number | undefined {
@@ -85,35 +203,260 @@ function isCornerRadiusNode(node: BaseNode | null): node is SceneNode & { corner
   return node != null && "cornerRadius" in node;
 }
 
-function pickParent(): BaseNode & ChildrenMixin {
-  const sel = figma.currentPage.selection;
-  if (sel.length === 1 && "appendChild" in sel[0]) {
-    return sel[0] as BaseNode & ChildrenMixin;
+async function resolveParentNode(parentId: string): Promise<BaseNode & ChildrenMixin> {
+  const parent = await figma.getNodeByIdAsync(parentId);
+  if (parent && "appendChild" in parent) return parent as BaseNode & ChildrenMixin;
+  throw new Error(`Parent not found or cannot contain children: ${parentId}`);
+}
+
+interface PlacementTarget {
+  mode: PlacementMode;
+  parent: BaseNode & ChildrenMixin;
+  anchor: SceneNode | null;
+}
+
+async function placementAnchor(params: Record<string, unknown>): Promise<SceneNode> {
+  const relativeTo = stringParam(params, "relativeTo");
+  if (relativeTo) {
+    const node = await figma.getNodeByIdAsync(relativeTo);
+    if (isSceneNode(node)) return node;
+    throw new Error(`relativeTo node not found: ${relativeTo}`);
+  }
+  const selected = figma.currentPage.selection[0];
+  if (!selected) throw new Error("placement after/below needs relativeTo or a selected node.");
+  return selected;
+}
+
+// Where a new node goes: after/below sit next to an anchor in its parent, inside nests into relativeTo,
+// and auto keeps the parentId / pageId / selection chain. absolute never nests into the selection.
+async function pickParent(params: Record<string, unknown>): Promise<PlacementTarget> {
+  const mode = enumParam(params, "placement", PLACEMENT_MODES) ?? "auto";
+  if (mode === "after" || mode === "below") {
+    const anchor = await placementAnchor(params);
+    const parent = anchor.parent;
+    if (!parent || !("appendChild" in parent)) throw new Error("relativeTo node has no parent to place into.");
+    return { mode, parent: parent as BaseNode & ChildrenMixin, anchor };
+  }
+
+  const relativeTo = stringParam(params, "relativeTo");
+  if (mode === "inside" && relativeTo) return { mode, parent: await resolveParentNode(relativeTo), anchor: null };
+  const parentId = stringParam(params, "parentId");
+  if (parentId) return { mode, parent: await resolveParentNode(parentId), anchor: null };
+  if (stringParam(params, "pageId") || stringParam(params, "pageName")) {
+    return { mode, parent: await resolvePage(params), anchor: null };
+  }
+
+  // Chat turns only nest into what they created themselves, never into whatever the designer left selected.
+  const turn = currentTurn();
+  const sel = figma.currentPage.selection.filter((node) => !turn || createdInTurn(turn, node));
+  if (mode !== "absolute" && sel.length === 1 && "appendChild" in sel[0]) {
+    return { mode, parent: sel[0] as BaseNode & ChildrenMixin, anchor: null };
+  }
+  if (mode !== "absolute" && sel.length > 0 && sel[0].parent && "appendChild" in sel[0].parent) {
+    return { mode, parent: sel[0].parent as BaseNode & ChildrenMixin, anchor: null };
+  }
+  return { mode, parent: figma.currentPage, anchor: null };
+}
+
+function overlaps(a: Rect, b: Rect): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+function siblingRects(node: SceneNode): Rect[] {
+  const parent = node.parent;
+  if (!parent || !("children" in parent)) return [];
+  return parent.children
+    .filter((child) => child !== node && child.visible)
+    .map((child) => ({ x: child.x, y: child.y, width: child.width, height: child.height }));
+}
+
+// Slides the node right or down past whatever sibling it lands on until it overlaps nothing.
+function moveToFreeSpot(node: SceneNode, x: number, y: number, direction: "right" | "down", gap: number): void {
+  const others = siblingRects(node);
+  const rect = { x, y, width: node.width, height: node.height };
+  for (let i = 0; i <= others.length; i += 1) {
+    const hit = others.find((other) => overlaps(rect, other));
+    if (!hit) break;
+    if (direction === "right") rect.x = hit.x + hit.width + gap;
+    else rect.y = hit.y + hit.height + gap;
+  }
+  node.x = rect.x;
+  node.y = rect.y;
+}
+
+function positionNode(node: SceneNode, params: Record<string, unknown>, target: PlacementTarget): Record<string, unknown> {
+  const { mode, parent, anchor } = target;
+  const onCanvas = parent.type === "PAGE";
+  const gap = numberParam(params, "placementGap") ?? (onCanvas ? PLACEMENT_CANVAS_GAP : PLACEMENT_FRAME_GAP);
+  const flowed = isAutoLayoutNode(parent as BaseNode) && (parent as AutoLayoutNode).layoutMode !== "NONE"
+    && !("layoutPositioning" in node && node.layoutPositioning === "ABSOLUTE");
+  const explicit = params.x !== undefined || params.y !== undefined;
+
+  if (!flowed) {
+    if (anchor && mode === "after") {
+      moveToFreeSpot(node, anchor.x + anchor.width + gap, anchor.y, "right", gap);
+    } else if (anchor && mode === "below") {
+      moveToFreeSpot(node, anchor.x, anchor.y + anchor.height + gap, "down", gap);
+    } else if (mode !== "absolute" && !explicit) {
+      const others = siblingRects(node);
+      if (onCanvas && others.length > 0) {
+        // New top-level content goes to the right of everything already on the page.
+        node.x = Math.max(...others.map((other) => other.x + other.width)) + gap;
+        node.y = Math.min(...others.map((other) => other.y));
+      } else {
+        moveToFreeSpot(node, node.x, node.y, "down", gap);
+      }
+    }
   }
-  if (sel.length > 0 && sel[0].parent && "appendChild" in sel[0].parent) {
-    return sel[0].parent as BaseNode & ChildrenMixin;
+
+  return {
+    placement: mode,
+    parentId: parent.id,
+    x: round(node.x),
+    y: round(node.y),
+    absoluteX: round(node.absoluteTransform[0][2]),
+    absoluteY: round(node.absoluteTransform[1][2]),
+    autoLayout: flowed || undefined,
+  };
+}
+
+function currentTurn(): TurnRecord | null {
+  return activeCommand ? activeCommand.turn : null;
+}
+
+// Nodes inside something the turn created go away with it on undo, so they need no record of their own.
+function createdInTurn(turn: TurnRecord, node: BaseNode): boolean {
+  return turn.created.some((created) => isAncestorOf(created, node));
+}
+
+function trackCreated(node: SceneNode): void {
+  agentChangeIds.add(node.id);
+  if ("findAll" in node) for (const child of node.findAll()) agentChangeIds.add(child.id);
+  if (activeCommand && activeCommand.batch) activeCommand.batch.created.push(node);
+  const turn = currentTurn();
+  if (turn) turn.created.push(node);
+  if (activeCommand) stampCreated(node, activeCommand);
+}
+
+function trackCreatedAsset(asset: TurnAsset): void {
+  agentChangeIds.add(asset.id);
+  const turn = currentTurn();
+  if (turn) turn.createdAssets.push(asset);
+}
+
+// Records a node's state the first time a command or chat turn touches it: commands stamp provenance
+// when the node really changed, and undo_last_turn puts turn snapshots back.
+function trackChanged(node: SceneNode): void {
+  agentChangeIds.add(node.id);
+  const scope = activeCommand;
+  const turn = currentTurn();
+  const needsCommand = scope != null && !scope.touched.has(node.id);
+  const needsTurn = turn != null && !turn.snapshots.has(node.id) && !createdInTurn(turn, node);
+  if (!needsCommand && !needsTurn) return;
+
+  const snapshot = snapshotNode(node);
+  if (needsCommand) scope!.touched.set(node.id, { node, snapshot });
+  if (needsTurn) turn!.snapshots.set(node.id, snapshot);
+}
+
+function pageSnapshot(page: PageNode): PageSnapshot {
+  return { name: page.name, flowStartingPoints: JSON.parse(JSON.stringify(page.flowStartingPoints)) };
+}
+
+function trackPageChanged(page: PageNode): void {
+  const turn = currentTurn();
+  if (!turn || turn.pageSnapshots.has(page.id) || turn.createdAssets.some((asset) => asset.id === page.id)) return;
+  turn.pageSnapshots.set(page.id, pageSnapshot(page));
+}
+
+// fontName comes before the other text properties, which need the style's font loaded.
+const STYLE_SNAPSHOT_PROPS = [
+  "name", "description", "paints", "fontName", "fontSize", "lineHeight", "letterSpacing",
+  "paragraphSpacing", "textDecoration", "textCase",
+] as const;
+
+function styleSnapshot(style: PaintStyle | TextStyle): StyleSnapshot {
+  const source = style as unknown as Record<string, unknown>;
+  const snapshot: StyleSnapshot = {};
+  for (const key of STYLE_SNAPSHOT_PROPS) {
+    if (key in style) snapshot[key] = JSON.parse(JSON.stringify(source[key]));
   }
-  return figma.currentPage;
+  return snapshot;
+}
+
+function trackStyleChanged(style: PaintStyle | TextStyle): void {
+  agentChangeIds.add(style.id);
+  const turn = currentTurn();
+  if (!turn || turn.styleSnapshots.has(style.id) || turn.createdAssets.some((asset) => asset.id === style.id)) return;
+  turn.styleSnapshots.set(style.id, styleSnapshot(style));
+}
+
+function trackDeleted(node: SceneNode): void {
+  pendingDeletion([node])();
+}
+
+// Reads the nodes while they are still intact; call the result only once the operation removing them succeeded.
+function pendingDeletion(nodes: SceneNode[]): () => void {
+  const turn = currentTurn();
+  const ids = nodes.flatMap((node) => ("findAll" in node ? [node.id, ...node.findAll().map((child) => child.id)] : [node.id]));
+  const deleted = turn ? nodes.filter((node) => !createdInTurn(turn, node)).map((node) => ({ id: node.id, name: node.name })) : [];
+  return () => {
+    for (const id of ids) agentChangeIds.add(id);
+    if (turn) turn.deleted.push(...deleted);
+  };
 }
 
-function appendAndFocus<T extends SceneNode>(node: T): T {
-  pickParent().appendChild(node);
+async function appendAndFocus<T extends SceneNode>(node: T, params: Record<string, unknown>): Promise<T> {
+  let target: PlacementTarget;
+  try {
+    target = await pickParent(params);
+  } catch (err) {
+    node.remove();
+    throw err;
+  }
+  const { parent, anchor } = target;
+  if (anchor && anchor.parent === parent) parent.insertChild(parent.children.indexOf(anchor) + 1, node);
+  else parent.appendChild(node);
+  trackCreated(node);
+  try {
+    applyLayoutChildSettings(node, params);
+  } catch (err) {
+    node.remove();
+    throw err;
+  }
+  const placed = positionNode(node, params, target);
+  if (activeCommand) activeCommand.placed = placed;
+  const page = pageOf(node);
+  if (page && page !== figma.currentPage) {
+    page.selection = [node];
+    return node;
+  }
   figma.currentPage.selection = [node];
   figma.viewport.scrollAndZoomIntoView([node]);
   return node;
 }
 
-function resolveTargetNode(params: Record<string, unknown>): SceneNode {
+// Read-only tools resolve targets the same way; only mutating ones snapshot them for provenance and undo.
+function trackTarget(node: SceneNode): void {
+  if (activeCommand && READ_ONLY_TOOLS.has(activeCommand.tool)) return;
+  trackChanged(node);
+}
+
+async function resolveTargetNode(params: Record<string, unknown>): Promise<SceneNode> {
   const nodeId = stringParam(params, "nodeId");
   if (nodeId) {
-    const node = figma.getNodeById(nodeId);
-    if (isSceneNode(node)) return node;
+    const node = await figma.getNodeByIdAsync(nodeId);
+    if (isSceneNode(node)) {
+      trackTarget(node);
+      return node;
+    }
     throw new Error(`Node not found for id ${nodeId}`);
   }
   const selected = figma.currentPage.selection[0];
   if (!selected) {
     throw new Error("Select a node or provide nodeId.");
   }
+  trackTarget(selected);
   return selected;
 }
 
@@ -162,265 +505,4060 @@ function applyAutoLayoutSettings(node: AutoLayoutNode, params: Record<string, un
 
   const counterAxisSizingMode = enumParam(params, "counterAxisSizingMode", ["FIXED", "AUTO"] as const);
   if (counterAxisSizingMode) node.counterAxisSizingMode = counterAxisSizingMode;
-}
 
-async function handleCommand(
-  tool: string,
-  params: Record<string, unknown>
-): Promise<unknown> {
-  switch (tool) {
-    case "create_frame": {
-      const frame = figma.createFrame();
-      frame.name = stringParam(params, "name") ?? "Frame";
-      frame.x = numberParam(params, "x") ?? 0;
-      frame.y = numberParam(params, "y") ?? 0;
-      frame.resize(numberParam(params, "width") ?? 100, numberParam(params, "height") ?? 100);
+  const layoutWrap = enumParam(params, "layoutWrap", ["NO_WRAP", "WRAP"] as const);
+  if (layoutWrap) {
+    if (layoutWrap === "WRAP" && node.layoutMode !== "HORIZONTAL") {
+      throw new Error("layoutWrap WRAP needs layoutMode HORIZONTAL.");
+    }
+    node.layoutWrap = layoutWrap;
+  }
 
-      const fill = colorParam(params, "fillR", "fillG", "fillB");
-      if (fill) {
-        const opacity = numberParam(params, "fillOpacity") ?? 1;
-        setNodeFill(frame, fill, opacity);
-      }
+  const counterAxisSpacing = numberParam(params, "counterAxisSpacing");
+  if (counterAxisSpacing != null) node.counterAxisSpacing = counterAxisSpacing;
+
+  const counterAxisAlignContent = enumParam(params, "counterAxisAlignContent", ["AUTO", "SPACE_BETWEEN"] as const);
+  if (counterAxisAlignContent) node.counterAxisAlignContent = counterAxisAlignContent;
+}
 
-      const cornerRadius = numberParam(params, "cornerRadius");
-      if (cornerRadius != null) frame.cornerRadius = cornerRadius;
+function applyLayoutChildSettings(node: SceneNode, params: Record<string, unknown>): void {
+  const parent = node.parent;
+  const inAutoLayout = parent != null && isAutoLayoutNode(parent) && parent.layoutMode !== "NONE";
 
-      applyAutoLayoutSettings(frame, params);
-      appendAndFocus(frame);
-      return { id: frame.id, name: frame.name };
+  const layoutPositioning = enumParam(params, "layoutPositioning", ["AUTO", "ABSOLUTE"] as const);
+  if (layoutPositioning) {
+    if (!inAutoLayout || !("layoutPositioning" in node)) {
+      throw new Error("layoutPositioning only applies to children of an auto-layout frame.");
     }
+    node.layoutPositioning = layoutPositioning;
+  }
 
-    case "create_component": {
-      const component = figma.createComponent();
-      component.name = stringParam(params, "name") ?? "Component";
-      component.x = numberParam(params, "x") ?? 0;
-      component.y = numberParam(params, "y") ?? 0;
-      component.resize(numberParam(params, "width") ?? 160, numberParam(params, "height") ?? 64);
+  const sizingHorizontal = enumParam(params, "layoutSizingHorizontal", ["FIXED", "HUG", "FILL"] as const);
+  const sizingVertical = enumParam(params, "layoutSizingVertical", ["FIXED", "HUG", "FILL"] as const);
+  if (sizingHorizontal || sizingVertical) {
+    if (!("layoutSizingHorizontal" in node)) throw new Error(`${node.type} nodes do not support layout sizing.`);
+    if ((sizingHorizontal === "FILL" || sizingVertical === "FILL") && !inAutoLayout) {
+      throw new Error("FILL sizing needs the node to be inside an auto-layout frame.");
+    }
+    if (sizingHorizontal) node.layoutSizingHorizontal = sizingHorizontal;
+    if (sizingVertical) node.layoutSizingVertical = sizingVertical;
+  }
 
-      const fill = colorParam(params, "fillR", "fillG", "fillB");
-      if (fill) {
-        const opacity = numberParam(params, "fillOpacity") ?? 1;
-        setNodeFill(component, fill, opacity);
-      }
+  const layoutGrow = numberParam(params, "layoutGrow");
+  if (layoutGrow != null && "layoutGrow" in node) node.layoutGrow = layoutGrow > 0 ? 1 : 0;
 
-      const cornerRadius = numberParam(params, "cornerRadius");
-      if (cornerRadius != null) component.cornerRadius = cornerRadius;
+  const layoutAlign = enumParam(params, "layoutAlign", ["MIN", "CENTER", "MAX", "STRETCH", "INHERIT"] as const);
+  if (layoutAlign && "layoutAlign" in node) node.layoutAlign = layoutAlign;
 
-      applyAutoLayoutSettings(component, params);
-      appendAndFocus(component);
-      return { id: component.id, name: component.name };
-    }
+  for (const key of ["minWidth", "maxWidth", "minHeight", "maxHeight"] as const) {
+    if (!(key in params)) continue;
+    const value = params[key];
+    if (value !== null && numberParam(params, key) == null) continue;
+    if (!(key in node)) throw new Error(`${node.type} nodes do not support ${key}.`);
+    (node as SceneNode & Record<typeof key, number | null>)[key] = value as number | null;
+  }
 
-    case "create_text": {
-      let fontFamily = stringParam(params, "fontFamily") ?? "Inter";
-      let fontStyle = stringParam(params, "fontStyle") ?? "Regular";
-      try {
-        await figma.loadFontAsync({ family: fontFamily, style: fontStyle });
-      } catch {
-        fontFamily = "Inter";
-        fontStyle = "Regular";
-        await figma.loadFontAsync({ family: fontFamily, style: fontStyle });
-      }
+  const constraintTypes = ["MIN", "CENTER", "MAX", "STRETCH", "SCALE"] as const;
+  const horizontal = enumParam(params, "constraintHorizontal", constraintTypes);
+  const vertical = enumParam(params, "constraintVertical", constraintTypes);
+  if (horizontal || vertical) {
+    if (!("constraints" in node)) throw new Error(`${node.type} nodes do not support constraints.`);
+    node.constraints = {
+      horizontal: horizontal ?? node.constraints.horizontal,
+      vertical: vertical ?? node.constraints.vertical,
+    };
+  }
+}
 
-      const text = figma.createText();
-      text.fontName = { family: fontFamily, style: fontStyle };
-      text.characters = stringParam(params, "text") ?? "Text";
-      text.fontSize = numberParam(params, "fontSize") ?? 16;
-      text.x = numberParam(params, "x") ?? 0;
-      text.y = numberParam(params, "y") ?? 0;
+const NODE_TREE_DEFAULT_DEPTH = 4;
+const NODE_TREE_MAX_DEPTH = 12;
+const NODE_TREE_DEFAULT_NODES = 250;
+const NODE_TREE_MAX_NODES = 2000;
 
-      const fill = colorParam(params, "fillR", "fillG", "fillB");
-      if (fill) {
-        const opacity = numberParam(params, "fillOpacity") ?? 1;
-        setNodeFill(text, fill, opacity);
-      }
+interface NodeTreeBudget {
+  remaining: number;
+  visited: number;
+  truncated: boolean;
+}
 
-      appendAndFocus(text);
-      return { id: text.id, characters: text.characters };
-    }
+type SerializedNode = Record<string, unknown>;
 
-    case "create_rectangle": {
-      const rect = figma.createRectangle();
-      rect.name = stringParam(params, "name") ?? "Rectangle";
-      rect.resize(numberParam(params, "width") ?? 100, numberParam(params, "height") ?? 100);
-      rect.x = numberParam(params, "x") ?? 0;
-      rect.y = numberParam(params, "y") ?? 0;
+function round(value: number, digits = 2): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
 
-      const fill = colorParam(params, "fillR", "fillG", "fillB");
-      if (fill) {
-        const opacity = numberParam(params, "fillOpacity") ?? 1;
-        setNodeFill(rect, fill, opacity);
-      }
+function mixedValue<T>(value: T | PluginAPI["mixed"]): T | "MIXED" {
+  return value === figma.mixed ? "MIXED" : (value as T);
+}
 
-      const cornerRadius = numberParam(params, "cornerRadius");
-      if (cornerRadius != null) rect.cornerRadius = cornerRadius;
+function serializeColor(color: RGB | RGBA): Record<string, number> {
+  const out: Record<string, number> = { r: round(color.r, 3), g: round(color.g, 3), b: round(color.b, 3) };
+  if ("a" in color) out.a = round(color.a, 3);
+  return out;
+}
 
-      appendAndFocus(rect);
-      return { id: rect.id, name: rect.name };
-    }
+function serializePaint(paint: Paint): Record<string, unknown> {
+  const out: Record<string, unknown> = { type: paint.type };
+  if (paint.visible === false) out.visible = false;
+  if (paint.opacity != null && paint.opacity !== 1) out.opacity = round(paint.opacity, 3);
 
-    case "create_ellipse": {
-      const ellipse = figma.createEllipse();
-      ellipse.name = stringParam(params, "name") ?? "Ellipse";
-      ellipse.resize(numberParam(params, "width") ?? 100, numberParam(params, "height") ?? 100);
-      ellipse.x = numberParam(params, "x") ?? 0;
-      ellipse.y = numberParam(params, "y") ?? 0;
+  switch (paint.type) {
+    case "SOLID":
+      out.color = serializeColor(paint.color);
+      break;
+    case "GRADIENT_LINEAR":
+    case "GRADIENT_RADIAL":
+    case "GRADIENT_ANGULAR":
+    case "GRADIENT_DIAMOND":
+      out.gradientStops = paint.gradientStops.map((stop) => ({
+        position: round(stop.position, 3),
+        color: serializeColor(stop.color),
+      }));
+      break;
+    case "IMAGE":
+      out.scaleMode = paint.scaleMode;
+      out.imageHash = paint.imageHash;
+      break;
+    default:
+      break;
+  }
+  return out;
+}
 
-      const fill = colorParam(params, "fillR", "fillG", "fillB");
-      if (fill) {
-        const opacity = numberParam(params, "fillOpacity") ?? 1;
-        setNodeFill(ellipse, fill, opacity);
-      }
+function serializePaints(paints: ReadonlyArray<Paint> | PluginAPI["mixed"]): unknown {
+  if (paints === figma.mixed) return "MIXED";
+  return paints.map(serializePaint);
+}
 
-      appendAndFocus(ellipse);
-      return { id: ellipse.id, name: ellipse.name };
-    }
+function serializeTextProps(node: TextNode, out: SerializedNode): void {
+  out.characters = node.characters;
+  const fontName = mixedValue(node.fontName);
+  out.fontName = fontName === "MIXED" ? "MIXED" : { family: fontName.family, style: fontName.style };
+  out.fontSize = mixedValue(node.fontSize);
+  out.lineHeight = mixedValue(node.lineHeight);
+  out.letterSpacing = mixedValue(node.letterSpacing);
+  out.textAlignHorizontal = node.textAlignHorizontal;
+  out.textAlignVertical = node.textAlignVertical;
+  out.textAutoResize = node.textAutoResize;
+}
 
-    case "create_line": {
-      const line = figma.createLine();
-      line.name = stringParam(params, "name") ?? "Line";
-      const length = numberParam(params, "length") ?? 120;
-      line.resize(length, 0);
-      line.x = numberParam(params, "x") ?? 0;
-      line.y = numberParam(params, "y") ?? 0;
-
-      const stroke = colorParam(params, "strokeR", "strokeG", "strokeB");
-      if (stroke) {
-        line.strokes = [{ type: "SOLID", color: stroke, opacity: clamp01(numberParam(params, "strokeOpacity") ?? 1) }];
-      }
-      const strokeWeight = numberParam(params, "strokeWeight");
-      if (strokeWeight != null) line.strokeWeight = strokeWeight;
+function serializeAutoLayoutProps(node: AutoLayoutNode, out: SerializedNode): void {
+  out.layoutMode = node.layoutMode;
+  if (node.layoutMode === "NONE") return;
+  out.itemSpacing = node.itemSpacing;
+  out.padding = {
+    top: node.paddingTop,
+    right: node.paddingRight,
+    bottom: node.paddingBottom,
+    left: node.paddingLeft,
+  };
+  out.primaryAxisAlignItems = node.primaryAxisAlignItems;
+  out.counterAxisAlignItems = node.counterAxisAlignItems;
+  out.primaryAxisSizingMode = node.primaryAxisSizingMode;
+  out.counterAxisSizingMode = node.counterAxisSizingMode;
+  if (node.layoutWrap === "WRAP") {
+    out.layoutWrap = node.layoutWrap;
+    out.counterAxisSpacing = node.counterAxisSpacing;
+  }
+}
 
-      const rotation = numberParam(params, "rotation");
-      if (rotation != null) line.rotation = rotation;
+function serializeLayoutChildProps(node: SceneNode, out: SerializedNode): void {
+  const parent = node.parent;
+  if (!parent || !isAutoLayoutNode(parent) || parent.layoutMode === "NONE") return;
+  if ("layoutSizingHorizontal" in node) {
+    out.layoutSizingHorizontal = node.layoutSizingHorizontal;
+    out.layoutSizingVertical = node.layoutSizingVertical;
+  }
+  if ("layoutPositioning" in node && node.layoutPositioning === "ABSOLUTE") out.layoutPositioning = "ABSOLUTE";
+}
 
-      appendAndFocus(line);
-      return { id: line.id, name: line.name };
+async function serializeComponentLinkage(node: SceneNode, out: SerializedNode): Promise<void> {
+  if (node.type === "INSTANCE") {
+    const main = await node.getMainComponentAsync();
+    out.mainComponent = main ? { id: main.id, name: main.name, key: main.key } : null;
+    return;
+  }
+  if (node.type === "COMPONENT") {
+    out.componentKey = node.key;
+    if (node.parent && node.parent.type === "COMPONENT_SET") {
+      out.componentSetId = node.parent.id;
     }
+  }
+}
 
-    case "create_polygon": {
-      const polygon = figma.createPolygon();
-      polygon.name = stringParam(params, "name") ?? "Polygon";
-      const sides = numberParam(params, "sides");
-      if (sides != null) polygon.pointCount = clampInt(sides, 3, 60);
-
-      const width = numberParam(params, "width");
-      const height = numberParam(params, "height");
-      const radius = numberParam(params, "radius");
-      if (width != null || height != null) {
-        polygon.resize(width ?? (height ?? 100), height ?? (width ?? 100));
-      } else if (radius != null) {
-        const size = Math.max(1, radius * 2);
-        polygon.resize(size, size);
-      } else {
-        polygon.resize(100, 100);
-      }
+async function serializeNode(node: SceneNode, depth: number, budget: NodeTreeBudget): Promise<SerializedNode> {
+  budget.remaining -= 1;
+  budget.visited += 1;
 
-      polygon.x = numberParam(params, "x") ?? 0;
-      polygon.y = numberParam(params, "y") ?? 0;
+  const out: SerializedNode = {
+    id: node.id,
+    name: node.name,
+    type: node.type,
+  };
+  if (!node.visible) out.visible = false;
+  if ("x" in node) {
+    out.x = round(node.x);
+    out.y = round(node.y);
+  }
+  if ("width" in node) {
+    out.width = round(node.width);
+    out.height = round(node.height);
+  }
+  if ("rotation" in node && node.rotation !== 0) out.rotation = round(node.rotation);
+  if ("opacity" in node && node.opacity !== 1) out.opacity = round(node.opacity, 3);
 
-      const fill = colorParam(params, "fillR", "fillG", "fillB");
-      if (fill) {
-        const opacity = numberParam(params, "fillOpacity") ?? 1;
-        setNodeFill(polygon, fill, opacity);
-      }
+  if (isFillableNode(node)) {
+    const fills = serializePaints(node.fills);
+    if (fills === "MIXED" || (Array.isArray(fills) && fills.length > 0)) out.fills = fills;
+  }
+  if ("strokes" in node && node.strokes.length > 0) {
+    out.strokes = node.strokes.map(serializePaint);
+    out.strokeWeight = mixedValue(node.strokeWeight);
+    out.strokeAlign = node.strokeAlign;
+    if ("dashPattern" in node && node.dashPattern.length > 0) out.dashPattern = node.dashPattern;
+  }
+  if ("effects" in node && node.effects.length > 0) out.effects = node.effects.map(serializeEffect);
+  if ("reactions" in node && node.reactions.length > 0) out.reactions = node.reactions;
+  if ("overflowDirection" in node && node.overflowDirection !== "NONE") out.overflowDirection = node.overflowDirection;
+  if (isCornerRadiusNode(node)) {
+    const cornerRadius = mixedValue(node.cornerRadius);
+    if (cornerRadius !== 0) out.cornerRadius = cornerRadius;
+  }
 
-      appendAndFocus(polygon);
-      return { id: polygon.id, name: polygon.name, sides: polygon.pointCount };
-    }
+  if (node.type === "TEXT") serializeTextProps(node, out);
+  if (isAutoLayoutNode(node)) serializeAutoLayoutProps(node, out);
+  serializeLayoutChildProps(node, out);
+  await serializeComponentLinkage(node, out);
+  const provenance = readProvenance(node);
+  if (provenance) out.provenance = provenance;
 
-    case "create_star": {
-      const star = figma.createStar();
-      star.name = stringParam(params, "name") ?? "Star";
-      const points = numberParam(params, "points");
-      if (points != null) star.pointCount = clampInt(points, 3, 60);
-
-      const width = numberParam(params, "width");
-      const height = numberParam(params, "height");
-      const radius = numberParam(params, "radius");
-      if (width != null || height != null) {
-        star.resize(width ?? (height ?? 100), height ?? (width ?? 100));
-      } else if (radius != null) {
-        const size = Math.max(1, radius * 2);
-        star.resize(size, size);
-      } else {
-        star.resize(100, 100);
+  if ("children" in node) {
+    out.childCount = node.children.length;
+    if (depth <= 0) {
+      if (node.children.length > 0) budget.truncated = true;
+    } else {
+      const children: SerializedNode[] = [];
+      for (const child of node.children) {
+        if (budget.remaining <= 0) {
+          budget.truncated = true;
+          break;
+        }
+        children.push(await serializeNode(child, depth - 1, budget));
       }
+      out.children = children;
+    }
+  }
 
-      star.x = numberParam(params, "x") ?? 0;
-      star.y = numberParam(params, "y") ?? 0;
+  return out;
+}
 
-      const fill = colorParam(params, "fillR", "fillG", "fillB");
-      if (fill) {
-        const opacity = numberParam(params, "fillOpacity") ?? 1;
-        setNodeFill(star, fill, opacity);
-      }
+async function serializeNodeTree(params: Record<string, unknown>): Promise<unknown> {
+  const maxDepth = clampInt(numberParam(params, "maxDepth") ?? NODE_TREE_DEFAULT_DEPTH, 1, NODE_TREE_MAX_DEPTH);
+  const maxNodes = clampInt(numberParam(params, "maxNodes") ?? NODE_TREE_DEFAULT_NODES, 1, NODE_TREE_MAX_NODES);
+  const budget: NodeTreeBudget = { remaining: maxNodes, visited: 0, truncated: false };
 
-      appendAndFocus(star);
-      return { id: star.id, name: star.name, points: star.pointCount };
-    }
+  if (stringParam(params, "nodeId")) {
+    const node = await resolveTargetNode(params);
+    const root = await serializeNode(node, maxDepth, budget);
+    return { root, nodeCount: budget.visited, truncated: budget.truncated };
+  }
 
-    case "set_auto_layout": {
-      const node = resolveTargetNode(params);
-      if (!isAutoLayoutNode(node)) {
-        throw new Error("Target node must be a frame or component for auto-layout.");
-      }
-      applyAutoLayoutSettings(node, params);
-      figma.currentPage.selection = [node];
-      figma.viewport.scrollAndZoomIntoView([node]);
-      return { id: node.id, name: node.name, layoutMode: node.layoutMode };
+  const page = figma.currentPage;
+  const children: SerializedNode[] = [];
+  for (const child of page.children) {
+    if (budget.remaining <= 0) {
+      budget.truncated = true;
+      break;
     }
+    children.push(await serializeNode(child, maxDepth - 1, budget));
+  }
+  return {
+    root: { id: page.id, name: page.name, type: page.type, childCount: page.children.length, children },
+    nodeCount: budget.visited,
+    truncated: budget.truncated,
+  };
+}
 
-    case "set_fill_color": {
-      const node = resolveTargetNode(params);
-      if (!isFillableNode(node)) {
-        throw new Error("Target node does not support fill color.");
-      }
-      const fill = colorParam(params, "fillR", "fillG", "fillB");
-      if (!fill) throw new Error("fillR, fillG, and fillB are required.");
-      const opacity = numberParam(params, "fillOpacity") ?? 1;
-      setNodeFill(node, fill, opacity);
-      figma.currentPage.selection = [node];
-      return { id: node.id, name: node.name };
-    }
+function lookupPath(value: unknown, path: string): unknown {
+  let current = value;
+  for (const key of path.split(".")) {
+    if (current == null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
 
-    case "set_corner_radius": {
-      const node = resolveTargetNode(params);
-      if (!isCornerRadiusNode(node)) {
-        throw new Error("Target node does not support corner radius.");
-      }
-      const radius = numberParam(params, "cornerRadius");
-      if (radius == null) throw new Error("cornerRadius is required.");
-      node.cornerRadius = radius;
-      figma.currentPage.selection = [node];
-      return { id: node.id, name: node.name, cornerRadius: node.cornerRadius };
+function resolveStepRefs(value: unknown, results: unknown[]): unknown {
+  if (typeof value === "string") {
+    const match = value.match(STEP_REF_PATTERN);
+    if (!match) return value;
+    const step = parseInt(match[1], 10);
+    if (step < 1 || step > results.length) {
+      throw new Error(`${value} refers to a step that has not run yet.`);
     }
+    const resolved = match[2] ? lookupPath(results[step - 1], match[2]) : results[step - 1];
+    if (resolved === undefined) throw new Error(`${value} did not resolve to a value.`);
+    return resolved;
+  }
+  if (Array.isArray(value)) return value.map((item) => resolveStepRefs(item, results));
+  if (value != null && typeof value === "object") {
+    const out: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) out[key] = resolveStepRefs(item, results);
+    return out;
+  }
+  return value;
+}
 
-    case "get_selection": {
-      const selection = figma.currentPage.selection;
-      return {
-        nodes: selection.map((node) => ({
-          id: node.id,
-          name: node.name,
-          type: node.type,
-          x: node.x,
-          y: node.y,
-          width: "width" in node ? node.width : undefined,
-          height: "height" in node ? node.height : undefined,
-        })),
-      };
-    }
+function rollbackCreated(created: SceneNode[]): number {
+  let removed = 0;
+  for (let i = created.length - 1; i >= 0; i -= 1) {
+    const node = created[i];
+    if (node.removed) continue;
+    node.remove();
+    removed += 1;
+  }
+  return removed;
+}
 
-    case "open_external_url": {
-      const url = stringParam(params, "url");
-      if (!url) {
-        throw new Error("url is required.");
+async function runBatch(params: Record<string, unknown>): Promise<unknown> {
+  const scope = activeCommand;
+  if (!scope || scope.batch) throw new Error("batch cannot be nested.");
+  const steps = params.steps;
+  if (!Array.isArray(steps) || steps.length === 0) {
+    throw new Error("steps must be a non-empty array of { tool, params }.");
+  }
+
+  const results: unknown[] = [];
+  const report: Array<Record<string, unknown>> = steps.map((step: BatchStep, index) => ({
+    step: index + 1,
+    tool: step && typeof step.tool === "string" ? step.tool : null,
+    status: "skipped",
+  }));
+
+  const initialSelection = figma.currentPage.selection;
+  const batch: BatchContext = { created: [] };
+  scope.batch = batch;
+  let failedStep: number | null = null;
+  try {
+    for (let i = 0; i < steps.length; i += 1) {
+      const step = steps[i] as BatchStep;
+      try {
+        if (!step || typeof step.tool !== "string") throw new Error("Each step needs a tool name.");
+        if (step.tool === "batch") throw new Error("batch cannot be nested.");
+        const stepParams = resolveStepRefs(step.params ?? {}, results) as Record<string, unknown>;
+        const result = await runCommand(step.tool, stepParams);
+        results.push(result);
+        report[i].status = "ok";
+        report[i].result = result;
+      } catch (err) {
+        report[i].status = "error";
+        report[i].error = err instanceof Error ? err.message : String(err);
+        failedStep = i + 1;
+        break;
       }
-      await figma.openExternal(url);
-      return { ok: true, url };
     }
+  } finally {
+    scope.batch = undefined;
+  }
 
-    default:
-      throw new Error(`Unknown tool: ${tool}`);
+  if (failedStep == null) {
+    return { ok: true, steps: report };
+  }
+
+  const removed = rollbackCreated(batch.created);
+  figma.currentPage.selection = initialSelection.filter((node) => !node.removed);
+  const failed = report[failedStep - 1];
+  throw new Error(
+    `Batch step ${failedStep} (${String(failed.tool)}) failed: ${String(failed.error).replace(/\.?$/, ".")} Rolled back ${removed} node(s) created by earlier steps.`
+  );
+}
+
+const SNAPSHOT_PROPS = [
+  "name", "visible", "locked", "opacity", "blendMode", "x", "y", "rotation",
+  "fills", "strokes", "strokeWeight", "strokeAlign", "dashPattern", "effects",
+  "fillStyleId", "strokeStyleId", "effectStyleId", "cornerRadius", "clipsContent",
+  "layoutMode", "layoutWrap", "primaryAxisSizingMode", "counterAxisSizingMode",
+  "primaryAxisAlignItems", "counterAxisAlignItems", "counterAxisAlignContent",
+  "itemSpacing", "counterAxisSpacing", "paddingTop", "paddingRight", "paddingBottom", "paddingLeft",
+  "layoutPositioning", "layoutAlign", "layoutGrow", "layoutSizingHorizontal", "layoutSizingVertical",
+  "minWidth", "maxWidth", "minHeight", "maxHeight", "constraints",
+  "textAutoResize", "textAlignHorizontal", "textAlignVertical", "paragraphSpacing",
+  "overflowDirection", "numberOfFixedChildren", "reactions", "componentPropertyReferences",
+] as const;
+
+const TEXT_SEGMENT_FIELDS: TextSegmentField[] = [
+  "fontName", "fontSize", "fills", "textDecoration", "textCase", "letterSpacing", "lineHeight", "textStyleId",
+];
+
+function snapshotNode(node: SceneNode): NodeSnapshot {
+  const source = node as unknown as Record<string, unknown>;
+  const props: Record<string, unknown> = {};
+  for (const key of SNAPSHOT_PROPS) {
+    if (!(key in node) || source[key] === figma.mixed) continue;
+    props[key] = JSON.parse(JSON.stringify(source[key]));
   }
+  if ("width" in node) {
+    props.width = node.width;
+    props.height = node.height;
+  }
+  const parent = node.parent;
+  const snapshot: NodeSnapshot = {
+    id: node.id,
+    name: node.name,
+    parentId: parent ? parent.id : null,
+    index: parent ? parent.children.indexOf(node) : -1,
+    props,
+  };
+  if ("boundVariables" in node && node.boundVariables) {
+    // Paint and effect bindings live inside fills/strokes/effects; these are the per-field ones.
+    const bindings: Record<string, string> = {};
+    for (const [field, alias] of Object.entries(node.boundVariables)) {
+      if (alias != null && !Array.isArray(alias) && "id" in alias) bindings[field] = (alias as VariableAlias).id;
+    }
+    snapshot.bindings = bindings;
+  }
+  if ("explicitVariableModes" in node) snapshot.modes = { ...node.explicitVariableModes };
+  if (node.type === "INSTANCE") snapshot.instance = snapshotInstance(node);
+  if (hasPropertyDefinitions(node)) {
+    snapshot.propertyDefinitions = JSON.parse(JSON.stringify(node.componentPropertyDefinitions));
+  }
+  if (node.type === "TEXT") {
+    snapshot.text = {
+      characters: node.characters,
+      segments: node.characters.length > 0
+        ? JSON.parse(JSON.stringify(node.getStyledTextSegments(TEXT_SEGMENT_FIELDS)))
+        : [],
+    };
+  }
+  return snapshot;
+}
+
+// Variants have no definitions of their own; reading them throws, so only sets and standalone components count.
+function hasPropertyDefinitions(node: SceneNode): node is ComponentNode | ComponentSetNode {
+  return node.type === "COMPONENT_SET" || (node.type === "COMPONENT" && node.parent?.type !== "COMPONENT_SET");
 }
+
+function snapshotInstance(node: InstanceNode): InstanceSnapshot {
+  const properties: Record<string, string | boolean> = {};
+  for (const [key, property] of Object.entries(node.componentProperties)) properties[key] = property.value;
+  // Sublayer overrides cannot be read back one by one, only cleared; changed sublayers get their own snapshots.
+  return { mainComponentId: node.mainComponent ? node.mainComponent.id : null, properties, overridden: node.overrides.length > 0 };
+}
+
+function snapshotChanged(node: SceneNode, snapshot: NodeSnapshot): boolean {
+  return JSON.stringify(snapshotNode(node)) !== JSON.stringify(snapshot);
+}
+
+async function restoreInstance(node: InstanceNode, instance: InstanceSnapshot): Promise<void> {
+  const main = instance.mainComponentId ? await figma.getNodeByIdAsync(instance.mainComponentId) : null;
+  if (main && main.type === "COMPONENT" && node.mainComponent?.id !== main.id) node.swapComponent(main);
+  if (!instance.overridden && node.overrides.length > 0) node.resetOverrides();
+  const changed: Record<string, string | boolean> = {};
+  for (const [key, property] of Object.entries(node.componentProperties)) {
+    if (key in instance.properties && property.value !== instance.properties[key]) changed[key] = instance.properties[key];
+  }
+  if (Object.keys(changed).length > 0) node.setProperties(changed);
+}
+
+function restorePropertyDefinitions(
+  node: ComponentNode | ComponentSetNode,
+  definitions: ComponentPropertyDefinitions
+): string[] {
+  const failed: string[] = [];
+  for (const [key, current] of Object.entries(node.componentPropertyDefinitions)) {
+    if (current.type === "VARIANT") continue;
+    const before = definitions[key];
+    try {
+      if (!before) node.deleteComponentProperty(key);
+      else if (before.defaultValue !== current.defaultValue) node.editComponentProperty(key, { defaultValue: before.defaultValue });
+    } catch {
+      failed.push(`componentProperties.${key}`);
+    }
+  }
+  // A property deleted during the turn cannot come back under its old key.
+  for (const key of Object.keys(definitions)) {
+    if (!(key in node.componentPropertyDefinitions)) failed.push(`componentProperties.${key}`);
+  }
+  return failed;
+}
+
+async function restoreStyle(style: PaintStyle | TextStyle, snapshot: StyleSnapshot): Promise<string[]> {
+  const failed: string[] = [];
+  const target = style as unknown as Record<string, unknown>;
+  if (style.type === "TEXT") {
+    await figma.loadFontAsync(style.fontName);
+    await figma.loadFontAsync(snapshot.fontName as FontName);
+  }
+  for (const [key, value] of Object.entries(snapshot)) {
+    try {
+      if (JSON.stringify(target[key]) !== JSON.stringify(value)) target[key] = value;
+    } catch {
+      failed.push(key);
+    }
+  }
+  return failed;
+}
+
+async function restoreBindings(node: SceneNode, bindings: Record<string, string>): Promise<string[]> {
+  const failed: string[] = [];
+  const current = snapshotNode(node).bindings ?? {};
+  for (const field of new Set([...Object.keys(current), ...Object.keys(bindings)])) {
+    if (current[field] === bindings[field]) continue;
+    try {
+      const variable = bindings[field] ? await figma.variables.getVariableByIdAsync(bindings[field]) : null;
+      node.setBoundVariable(field as VariableBindableNodeField, variable);
+    } catch {
+      failed.push(`boundVariables.${field}`);
+    }
+  }
+  return failed;
+}
+
+async function restoreModes(node: SceneNode & ExplicitVariableModesMixin, modes: Record<string, string>): Promise<string[]> {
+  const failed: string[] = [];
+  for (const collectionId of new Set([...Object.keys(node.explicitVariableModes), ...Object.keys(modes)])) {
+    if (node.explicitVariableModes[collectionId] === modes[collectionId]) continue;
+    try {
+      const collection = await figma.variables.getVariableCollectionByIdAsync(collectionId);
+      if (!collection) throw new Error(`Variable collection not found: ${collectionId}`);
+      if (modes[collectionId]) node.setExplicitVariableModeForCollection(collection, modes[collectionId]);
+      else node.clearExplicitVariableModeForCollection(collection);
+    } catch {
+      failed.push(`variableModes.${collectionId}`);
+    }
+  }
+  return failed;
+}
+
+async function restoreText(node: TextNode, text: TextSnapshot): Promise<void> {
+  await loadTextNodeFonts(node);
+  await Promise.all(text.segments.map((segment) => figma.loadFontAsync(segment.fontName)));
+  node.characters = text.characters;
+  for (const segment of text.segments) {
+    const { start, end } = segment;
+    if (segment.textStyleId) {
+      await node.setRangeTextStyleIdAsync(start, end, segment.textStyleId);
+      continue;
+    }
+    node.setRangeFontName(start, end, segment.fontName);
+    node.setRangeFontSize(start, end, segment.fontSize);
+    node.setRangeFills(start, end, segment.fills);
+    node.setRangeTextDecoration(start, end, segment.textDecoration);
+    node.setRangeTextCase(start, end, segment.textCase);
+    node.setRangeLetterSpacing(start, end, segment.letterSpacing);
+    node.setRangeLineHeight(start, end, segment.lineHeight);
+  }
+}
+
+// Puts back whatever the snapshot recorded; returns the keys that could not be restored.
+async function restoreSnapshot(node: SceneNode, snapshot: NodeSnapshot): Promise<string[]> {
+  const failed: string[] = [];
+  const target = node as unknown as Record<string, unknown>;
+
+  const parent = snapshot.parentId ? await figma.getNodeByIdAsync(snapshot.parentId) : null;
+  if (parent && "insertChild" in parent && !parent.removed) {
+    const container = parent as BaseNode & ChildrenMixin;
+    if (node.parent !== container || container.children.indexOf(node) !== snapshot.index) {
+      container.insertChild(Math.min(snapshot.index, container.children.length), node);
+    }
+  } else if (node.parent && node.parent.id !== snapshot.parentId) {
+    failed.push("parent");
+  }
+
+  if (snapshot.propertyDefinitions && hasPropertyDefinitions(node)) {
+    failed.push(...restorePropertyDefinitions(node, snapshot.propertyDefinitions));
+  }
+
+  if (snapshot.instance && node.type === "INSTANCE") {
+    try {
+      await restoreInstance(node, snapshot.instance);
+    } catch {
+      failed.push("componentProperties");
+    }
+  }
+
+  if (snapshot.text && node.type === "TEXT") {
+    try {
+      await restoreText(node, snapshot.text);
+    } catch {
+      failed.push("text");
+    }
+  }
+
+  if (snapshot.bindings) failed.push(...await restoreBindings(node, snapshot.bindings));
+  if (snapshot.modes && "explicitVariableModes" in node) failed.push(...await restoreModes(node, snapshot.modes));
+
+  const { width, height, x, y, ...rest } = snapshot.props;
+  const ordered: Array<[string, unknown]> = Object.entries(rest);
+  if (x !== undefined) ordered.push(["x", x], ["y", y]);
+  for (const [key, value] of ordered) {
+    try {
+      if (JSON.stringify(target[key]) === JSON.stringify(value)) continue;
+      if (key === "fillStyleId" && "setFillStyleIdAsync" in node) await node.setFillStyleIdAsync(value as string);
+      else if (key === "strokeStyleId" && "setStrokeStyleIdAsync" in node) await node.setStrokeStyleIdAsync(value as string);
+      else if (key === "effectStyleId" && "setEffectStyleIdAsync" in node) await node.setEffectStyleIdAsync(value as string);
+      else if (key === "reactions" && isReactiveNode(node)) await node.setReactionsAsync(value as Reaction[]);
+      else target[key] = value;
+    } catch {
+      failed.push(key);
+    }
+  }
+  if (typeof width === "number" && typeof height === "number" && "resize" in node) {
+    try {
+      if (node.width !== width || node.height !== height) node.resize(Math.max(0.01, width), Math.max(0.01, height));
+    } catch {
+      failed.push("size");
+    }
+  }
+  return failed;
+}
+
+function currentStamp(scope: CommandScope): ProvenanceStamp {
+  const { turn, tool } = scope;
+  const source = turn
+    ? { turnId: turn.id, provider: turn.provider, model: turn.model }
+    : { turnId: null, provider: "mcp", model: null };
+  return { ...source, tool, timestamp: new Date().toISOString() };
+}
+
+function readProvenance(node: BaseNode): ProvenanceRecord | null {
+  const raw = node.getSharedPluginData(PROVENANCE_NAMESPACE, PROVENANCE_KEY);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as ProvenanceRecord;
+  } catch {
+    return null;
+  }
+}
+
+function writeProvenance(node: BaseNode, record: ProvenanceRecord): void {
+  node.setSharedPluginData(PROVENANCE_NAMESPACE, PROVENANCE_KEY, JSON.stringify(record));
+}
+
+// New subtrees are stamped throughout; children that already carry a record (moved or cloned) keep it.
+// Instance sublayers come from their main component, and writing plugin data there would override them.
+function stampCreated(node: SceneNode, scope: CommandScope): void {
+  const stamp = currentStamp(scope);
+  writeProvenance(node, { created: stamp });
+  stampChildren(node, stamp);
+}
+
+function stampChildren(node: SceneNode, stamp: ProvenanceStamp): void {
+  if (node.type === "INSTANCE" || !("children" in node)) return;
+  for (const child of node.children) {
+    if (!readProvenance(child)) writeProvenance(child, { created: stamp });
+    stampChildren(child, stamp);
+  }
+}
+
+function stampModified(scope: CommandScope): void {
+  for (const { node, snapshot } of scope.touched.values()) {
+    if (node.removed || !snapshotChanged(node, snapshot)) continue;
+    writeProvenance(node, { ...readProvenance(node), modified: currentStamp(scope) });
+  }
+}
+
+// Every plugin command, including batch steps, runs in a scope so created and modified nodes get stamped.
+// Only commands tagged with the open chat turn's id are recorded into it; batch steps inherit the batch's turn.
+async function runCommand(tool: string, params: Record<string, unknown>, turnId?: string): Promise<unknown> {
+  const outer = activeCommand;
+  const turn = outer ? outer.turn : activeTurn && turnId === activeTurn.id ? activeTurn : null;
+  const scope: CommandScope = { tool, touched: new Map(), batch: outer ? outer.batch : undefined, turn };
+  activeCommand = scope;
+  try {
+    const result = await handleCommand(tool, params);
+    // Create tools report where the node actually landed alongside their own result fields.
+    if (scope.placed && result != null && typeof result === "object" && !Array.isArray(result)) {
+      return { ...result, placement: scope.placed };
+    }
+    return result;
+  } finally {
+    activeCommand = outer;
+    stampModified(scope);
+  }
+}
+
+function provenanceMatches(record: ProvenanceRecord, params: Record<string, unknown>): boolean {
+  const action = enumParam(params, "action", ["created", "modified"] as const);
+  const stamps = [action !== "modified" ? record.created : undefined, action !== "created" ? record.modified : undefined]
+    .filter((stamp): stamp is ProvenanceStamp => stamp != null);
+  if (stamps.length === 0) return false;
+
+  const turnId = stringParam(params, "turnId");
+  const provider = stringParam(params, "provider");
+  const model = stringParam(params, "model");
+  const tool = stringParam(params, "tool");
+  return stamps.some((stamp) =>
+    (!turnId || stamp.turnId === turnId)
+    && (!provider || stamp.provider === provider)
+    && (!model || stamp.model === model)
+    && (!tool || stamp.tool === tool)
+  );
+}
+
+async function provenanceRoots(params: Record<string, unknown>): Promise<ReadonlyArray<BaseNode & ChildrenMixin>> {
+  const rootId = stringParam(params, "rootId");
+  if (rootId) return [await resolveParentNode(rootId)];
+  if (params.allPages === true) {
+    await figma.loadAllPagesAsync();
+    return figma.root.children;
+  }
+  return [figma.currentPage];
+}
+
+async function findStampedNodes(params: Record<string, unknown>): Promise<Array<{ node: SceneNode; record: ProvenanceRecord }>> {
+  const found: Array<{ node: SceneNode; record: ProvenanceRecord }> = [];
+  for (const root of await provenanceRoots(params)) {
+    const candidates = root.type === "PAGE" || root.type === "DOCUMENT" ? [] : [root as unknown as SceneNode];
+    for (const node of candidates.concat(root.findAll())) {
+      const record = readProvenance(node);
+      if (record && provenanceMatches(record, params)) found.push({ node, record });
+    }
+  }
+  return found;
+}
+
+async function listAgentNodes(params: Record<string, unknown>): Promise<unknown> {
+  const limit = clampInt(numberParam(params, "limit") ?? FIND_DEFAULT_LIMIT, 1, FIND_MAX_LIMIT);
+  const offset = Math.max(0, Math.round(numberParam(params, "offset") ?? 0));
+  const found = await findStampedNodes(params);
+  const turns = Array.from(new Set(found.flatMap(({ record }) =>
+    [record.created, record.modified].filter((s): s is ProvenanceStamp => s != null).map((s) => s.turnId)
+  ).filter((id): id is string => id != null)));
+
+  return {
+    total: found.length,
+    offset,
+    nextOffset: offset + limit < found.length ? offset + limit : null,
+    turns,
+    nodes: found.slice(offset, offset + limit).map(({ node, record }) => {
+      const page = pageOf(node);
+      return {
+        id: node.id,
+        name: node.name,
+        type: node.type,
+        pageId: page ? page.id : null,
+        created: record.created,
+        modified: record.modified,
+      };
+    }),
+  };
+}
+
+async function stripProvenance(params: Record<string, unknown>): Promise<unknown> {
+  const ids = Array.isArray(params.nodeIds) ? params.nodeIds.filter((id): id is string => typeof id === "string") : [];
+  let nodes: BaseNode[] = [];
+  if (ids.length > 0) {
+    for (const id of ids) {
+      const node = await figma.getNodeByIdAsync(id);
+      if (!node) throw new Error(`Node not found for id ${id}`);
+      nodes.push(node);
+      if (params.includeChildren === true && "findAll" in node) nodes = nodes.concat(node.findAll());
+    }
+  } else {
+    nodes = (await findStampedNodes(params)).map(({ node }) => node);
+  }
+
+  let stripped = 0;
+  for (const node of nodes) {
+    if (!readProvenance(node)) continue;
+    node.setSharedPluginData(PROVENANCE_NAMESPACE, PROVENANCE_KEY, "");
+    stripped += 1;
+  }
+  return { stripped };
+}
+
+function beginTurn(params: Record<string, unknown>): unknown {
+  const id = stringParam(params, "turnId");
+  if (!id) throw new Error("turnId is required.");
+  figma.commitUndo();
+  activeTurn = {
+    id,
+    provider: stringParam(params, "provider") ?? "chat",
+    model: stringParam(params, "model") ?? null,
+    created: [],
+    createdAssets: [],
+    snapshots: new Map(),
+    pageSnapshots: new Map(),
+    styleSnapshots: new Map(),
+    deleted: [],
+  };
+  return { turnId: id };
+}
+
+async function endTurn(params: Record<string, unknown>): Promise<unknown> {
+  const turn = activeTurn;
+  const id = stringParam(params, "turnId");
+  if (!turn || (id && turn.id !== id)) return { turnId: id ?? null, recorded: false };
+  activeTurn = null;
+  figma.commitUndo();
+
+  for (const [nodeId, snapshot] of turn.snapshots) {
+    const node = await figma.getNodeByIdAsync(nodeId);
+    if (!isSceneNode(node) || node.removed || !snapshotChanged(node, snapshot)) turn.snapshots.delete(nodeId);
+  }
+  for (const [pageId, snapshot] of turn.pageSnapshots) {
+    const page = await figma.getNodeByIdAsync(pageId);
+    if (!page || page.type !== "PAGE" || JSON.stringify(pageSnapshot(page)) === JSON.stringify(snapshot)) {
+      turn.pageSnapshots.delete(pageId);
+    }
+  }
+  for (const [styleId, snapshot] of turn.styleSnapshots) {
+    const style = await figma.getStyleByIdAsync(styleId);
+    if (!style || (style.type !== "PAINT" && style.type !== "TEXT")
+      || JSON.stringify(styleSnapshot(style as PaintStyle | TextStyle)) === JSON.stringify(snapshot)) {
+      turn.styleSnapshots.delete(styleId);
+    }
+  }
+  turn.created = turn.created.filter((node) => !node.removed);
+  const recorded = turn.created.length > 0 || turn.createdAssets.length > 0 || turn.snapshots.size > 0
+    || turn.pageSnapshots.size > 0 || turn.styleSnapshots.size > 0 || turn.deleted.length > 0;
+  if (recorded) {
+    turnHistory.push(turn);
+    if (turnHistory.length > TURN_HISTORY_LIMIT) turnHistory.shift();
+  }
+  return {
+    turnId: turn.id,
+    recorded,
+    created: turn.created.length + turn.createdAssets.length,
+    changed: turn.snapshots.size + turn.pageSnapshots.size + turn.styleSnapshots.size,
+    deleted: turn.deleted.length,
+  };
+}
+
+// Variables, styles and pages the turn created; pages go last and never take the current page with them.
+async function removeTurnAssets(assets: TurnAsset[]): Promise<{ removed: number; failed: Array<{ id: string; name: string }> }> {
+  let removed = 0;
+  const failed: Array<{ id: string; name: string }> = [];
+  for (const asset of assets.slice().reverse()) {
+    try {
+      if ("type" in asset && asset.type === "PAGE") {
+        if (asset.removed) continue;
+        if (figma.currentPage.id === asset.id) {
+          const fallback = figma.root.children.find((page) => !assets.some((other) => other.id === page.id));
+          if (!fallback) throw new Error("No other page to switch to.");
+          await figma.setCurrentPageAsync(fallback);
+        }
+      }
+      asset.remove();
+      removed += 1;
+    } catch {
+      failed.push({ id: asset.id, name: asset.name });
+    }
+  }
+  return { removed, failed };
+}
+
+async function undoLastTurn(params: Record<string, unknown>): Promise<unknown> {
+  const turnId = stringParam(params, "turnId");
+  const turn = turnHistory[turnHistory.length - 1];
+  if (!turn) throw new Error("No recorded chat turn to undo.");
+  if (turnId && turn.id !== turnId) {
+    throw new Error(`Turn ${turnId} is not the most recent turn (${turn.id}); undo newer turns first.`);
+  }
+  turnHistory.pop();
+
+  // Restore first so nodes the turn moved into its own frames or component sets are back out before those go.
+  const restored: string[] = [];
+  const failed: Array<{ id: string; name: string; properties: string[] }> = [];
+  for (const [pageId, snapshot] of turn.pageSnapshots) {
+    const page = await figma.getNodeByIdAsync(pageId);
+    if (!page || page.type !== "PAGE") {
+      failed.push({ id: pageId, name: snapshot.name, properties: ["page"] });
+      continue;
+    }
+    page.name = snapshot.name;
+    page.flowStartingPoints = snapshot.flowStartingPoints;
+    restored.push(page.id);
+  }
+  for (const [styleId, snapshot] of turn.styleSnapshots) {
+    const style = await figma.getStyleByIdAsync(styleId);
+    if (!style || (style.type !== "PAINT" && style.type !== "TEXT")) {
+      failed.push({ id: styleId, name: String(snapshot.name), properties: ["style"] });
+      continue;
+    }
+    const keys = await restoreStyle(style as PaintStyle | TextStyle, snapshot);
+    if (keys.length > 0) failed.push({ id: style.id, name: style.name, properties: keys });
+    else restored.push(style.id);
+  }
+  for (const snapshot of Array.from(turn.snapshots.values()).reverse()) {
+    const node = await figma.getNodeByIdAsync(snapshot.id);
+    if (!isSceneNode(node) || node.removed) {
+      failed.push({ id: snapshot.id, name: snapshot.name, properties: ["node"] });
+      continue;
+    }
+    const keys = await restoreSnapshot(node, snapshot);
+    if (keys.length > 0) failed.push({ id: node.id, name: node.name, properties: keys });
+    else restored.push(node.id);
+  }
+  const removed = rollbackCreated(turn.created);
+  const assets = await removeTurnAssets(turn.createdAssets);
+  for (const asset of assets.failed) failed.push({ ...asset, properties: ["removal"] });
+  figma.commitUndo();
+
+  return {
+    turnId: turn.id,
+    removedNodes: removed,
+    removedAssets: assets.removed,
+    restoredNodes: restored.length,
+    failed,
+    notRestored: turn.deleted,
+    note: turn.deleted.length > 0
+      ? "Nodes deleted during the turn cannot be recreated here; press Cmd/Ctrl+Z once in Figma to bring back the whole turn instead."
+      : undefined,
+    remainingTurns: turnHistory.length,
+  };
+}
+
+const SPEC_MAX_NODES = 500;
+
+type SpecNodeBuilder = (params: Record<string, unknown>) => Promise<SceneNode>;
+
+interface SpecBuildState {
+  count: number;
+}
+
+function applyFillParams(node: FillableNode, params: Record<string, unknown>): void {
+  const fill = colorParam(params, "fillR", "fillG", "fillB");
+  if (fill) {
+    const opacity = numberParam(params, "fillOpacity") ?? 1;
+    setNodeFill(node, fill, opacity);
+  }
+}
+
+const GRADIENT_TYPES = ["GRADIENT_LINEAR", "GRADIENT_RADIAL", "GRADIENT_ANGULAR", "GRADIENT_DIAMOND"] as const;
+
+function parseColor(value: unknown): RGBA | null {
+  if (typeof value === "string") {
+    const hex = value.trim().replace(/^#/, "");
+    if (!/^([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(hex)) return null;
+    const full = hex.length === 3 ? hex.split("").map((c) => c + c).join("") : hex;
+    const channel = (offset: number) => parseInt(full.slice(offset, offset + 2), 16) / 255;
+    return { r: channel(0), g: channel(2), b: channel(4), a: full.length === 8 ? channel(6) : 1 };
+  }
+  if (value == null || typeof value !== "object") return null;
+  const color = value as Record<string, unknown>;
+  const r = numberParam(color, "r");
+  const g = numberParam(color, "g");
+  const b = numberParam(color, "b");
+  if (r == null || g == null || b == null) return null;
+  return { r: clamp01(r), g: clamp01(g), b: clamp01(b), a: clamp01(numberParam(color, "a") ?? 1) };
+}
+
+function requireColor(value: unknown, label: string): RGBA {
+  const color = parseColor(value);
+  if (!color) throw new Error(`${label} must be a hex string or { r, g, b, a } with 0-1 channels.`);
+  return color;
+}
+
+// Rotates the gradient axis about the node centre; 0deg runs left to right, 90deg top to bottom.
+function gradientTransformForAngle(angle: number): Transform {
+  const radians = (angle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return [
+    [cos, sin, 0.5 - 0.5 * cos - 0.5 * sin],
+    [-sin, cos, 0.5 + 0.5 * sin - 0.5 * cos],
+  ];
+}
+
+function buildPaint(spec: unknown, label: string): Paint {
+  if (spec == null || typeof spec !== "object") throw new Error(`${label} must be an object.`);
+  const paint = spec as Record<string, unknown>;
+  const type = stringParam(paint, "type") ?? "SOLID";
+  const opacity = clamp01(numberParam(paint, "opacity") ?? 1);
+  const visible = paint.visible !== false;
+
+  if (type === "SOLID") {
+    const { r, g, b, a } = requireColor(paint.color, `${label}.color`);
+    return { type: "SOLID", color: { r, g, b }, opacity: opacity * a, visible };
+  }
+
+  const gradientType = enumParam(paint, "type", GRADIENT_TYPES);
+  if (gradientType) {
+    const stops = Array.isArray(paint.stops) ? paint.stops : [];
+    if (stops.length < 2) throw new Error(`${label}.stops needs at least two { position, color } entries.`);
+    const gradientStops: ColorStop[] = stops.map((stop: unknown, index: number) => {
+      const entry = (stop ?? {}) as Record<string, unknown>;
+      return {
+        position: clamp01(numberParam(entry, "position") ?? index / (stops.length - 1)),
+        color: requireColor(entry.color, `${label}.stops[${index}].color`),
+      };
+    });
+    return {
+      type: gradientType,
+      gradientStops,
+      gradientTransform: gradientTransformForAngle(numberParam(paint, "angle") ?? 0),
+      opacity,
+      visible,
+    };
+  }
+
+  if (type === "IMAGE") {
+    const scaleMode = enumParam(paint, "scaleMode", ["FILL", "FIT", "CROP", "TILE"] as const) ?? "FILL";
+    const image: ImagePaint = {
+      type: "IMAGE",
+      imageHash: imageFromParams(paint, label).hash,
+      scaleMode,
+      opacity,
+      visible,
+    };
+    if (scaleMode === "TILE") {
+      return { ...image, scalingFactor: Math.max(0.01, numberParam(paint, "scalingFactor") ?? 1) };
+    }
+    if (scaleMode === "CROP") {
+      return { ...image, imageTransform: cropTransformParam(paint) };
+    }
+    return image;
+  }
+
+  throw new Error(`${label}.type must be SOLID, IMAGE or one of ${GRADIENT_TYPES.join(", ")}.`);
+}
+
+function imageFromParams(params: Record<string, unknown>, label: string): Image {
+  const imageHash = stringParam(params, "imageHash");
+  if (imageHash) {
+    const existing = figma.getImageByHash(imageHash);
+    if (!existing) throw new Error(`${label}: no image with hash ${imageHash}.`);
+    return existing;
+  }
+  const base64 = stringParam(params, "base64");
+  if (!base64) throw new Error(`${label} needs base64 image data, a filePath, or an imageHash.`);
+  try {
+    return figma.createImage(figma.base64Decode(base64.replace(/^data:[^,]*,/, "")));
+  } catch (err) {
+    throw new Error(`${label}: unsupported image data (PNG, JPG or GIF expected): ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+// Crop rect is given in 0-1 fractions of the image: { cropX, cropY, cropWidth, cropHeight }.
+function cropTransformParam(params: Record<string, unknown>): Transform {
+  const width = Math.min(1, Math.max(0.01, numberParam(params, "cropWidth") ?? 1));
+  const height = Math.min(1, Math.max(0.01, numberParam(params, "cropHeight") ?? 1));
+  const x = Math.min(1 - width, Math.max(0, numberParam(params, "cropX") ?? 0));
+  const y = Math.min(1 - height, Math.max(0, numberParam(params, "cropY") ?? 0));
+  return [
+    [width, 0, x],
+    [0, height, y],
+  ];
+}
+
+function buildPaints(value: unknown, label: string): Paint[] {
+  if (!Array.isArray(value)) throw new Error(`${label} must be an array of paints.`);
+  return value.map((paint, index) => buildPaint(paint, `${label}[${index}]`));
+}
+
+function buildEffect(spec: unknown, label: string): Effect {
+  if (spec == null || typeof spec !== "object") throw new Error(`${label} must be an object.`);
+  const effect = spec as Record<string, unknown>;
+  const type = enumParam(effect, "type", ["DROP_SHADOW", "INNER_SHADOW", "LAYER_BLUR", "BACKGROUND_BLUR"] as const);
+  const visible = effect.visible !== false;
+  const radius = Math.max(0, numberParam(effect, "radius") ?? 4);
+
+  if (type === "DROP_SHADOW" || type === "INNER_SHADOW") {
+    const color = effect.color != null
+      ? requireColor(effect.color, `${label}.color`)
+      : { r: 0, g: 0, b: 0, a: 0.1 };
+    return {
+      type,
+      color,
+      offset: { x: numberParam(effect, "offsetX") ?? 0, y: numberParam(effect, "offsetY") ?? 2 },
+      radius,
+      spread: numberParam(effect, "spread") ?? 0,
+      visible,
+      blendMode: "NORMAL",
+    };
+  }
+  if (type === "LAYER_BLUR" || type === "BACKGROUND_BLUR") {
+    return { type, blurType: "NORMAL", radius, visible };
+  }
+  throw new Error(`${label}.type must be DROP_SHADOW, INNER_SHADOW, LAYER_BLUR or BACKGROUND_BLUR.`);
+}
+
+function buildEffects(value: unknown, label: string): Effect[] {
+  if (!Array.isArray(value)) throw new Error(`${label} must be an array of effects.`);
+  return value.map((effect, index) => buildEffect(effect, `${label}[${index}]`));
+}
+
+function applyStrokeParams(node: SceneNode, params: Record<string, unknown>): void {
+  const legacyStroke = colorParam(params, "strokeR", "strokeG", "strokeB");
+  const hasStrokeParams = params.strokes != null || legacyStroke != null
+    || params.strokeWeight != null || params.strokeAlign != null || params.dashPattern != null;
+  if (!hasStrokeParams) return;
+  if (!("strokes" in node)) throw new Error(`${node.type} nodes do not support strokes.`);
+
+  if (params.strokes != null) {
+    node.strokes = buildPaints(params.strokes, "strokes");
+  } else if (legacyStroke) {
+    node.strokes = [{ type: "SOLID", color: legacyStroke, opacity: clamp01(numberParam(params, "strokeOpacity") ?? 1) }];
+  }
+
+  const strokeWeight = numberParam(params, "strokeWeight");
+  if (strokeWeight != null) node.strokeWeight = Math.max(0, strokeWeight);
+
+  const strokeAlign = enumParam(params, "strokeAlign", ["INSIDE", "OUTSIDE", "CENTER"] as const);
+  if (strokeAlign) node.strokeAlign = strokeAlign;
+
+  if (Array.isArray(params.dashPattern) && "dashPattern" in node) {
+    node.dashPattern = params.dashPattern.filter((n): n is number => typeof n === "number" && n >= 0);
+  }
+}
+
+function applyPaintParams(node: SceneNode, params: Record<string, unknown>): void {
+  if (params.fills != null) {
+    if (!isFillableNode(node)) throw new Error(`${node.type} nodes do not support fills.`);
+    node.fills = buildPaints(params.fills, "fills");
+  } else if (isFillableNode(node)) {
+    applyFillParams(node, params);
+  }
+
+  applyStrokeParams(node, params);
+
+  if (params.effects != null) {
+    if (!("effects" in node)) throw new Error(`${node.type} nodes do not support effects.`);
+    node.effects = buildEffects(params.effects, "effects");
+  }
+}
+
+function serializeEffect(effect: Effect): Record<string, unknown> {
+  const out: Record<string, unknown> = { type: effect.type };
+  if (!effect.visible) out.visible = false;
+  if (effect.type === "DROP_SHADOW" || effect.type === "INNER_SHADOW") {
+    out.color = serializeColor(effect.color);
+    out.offsetX = effect.offset.x;
+    out.offsetY = effect.offset.y;
+    out.radius = effect.radius;
+    if (effect.spread) out.spread = effect.spread;
+  } else if (effect.type === "LAYER_BLUR" || effect.type === "BACKGROUND_BLUR") {
+    out.radius = effect.radius;
+  }
+  return out;
+}
+
+function resizeRegularShape(node: PolygonNode | StarNode, params: Record<string, unknown>): void {
+  const width = numberParam(params, "width");
+  const height = numberParam(params, "height");
+  const radius = numberParam(params, "radius");
+  if (width != null || height != null) {
+    node.resize(width ?? (height ?? 100), height ?? (width ?? 100));
+  } else if (radius != null) {
+    const size = Math.max(1, radius * 2);
+    node.resize(size, size);
+  } else {
+    node.resize(100, 100);
+  }
+}
+
+async function loadFontWithFallback(family: string, style: string): Promise<FontName> {
+  try {
+    await figma.loadFontAsync({ family, style });
+    return { family, style };
+  } catch {
+    const fallback = { family: "Inter", style: "Regular" };
+    await figma.loadFontAsync(fallback);
+    return fallback;
+  }
+}
+
+interface TextRange {
+  start: number;
+  end: number;
+}
+
+async function loadTextNodeFonts(text: TextNode): Promise<void> {
+  const fonts = text.characters.length > 0
+    ? text.getRangeAllFontNames(0, text.characters.length)
+    : [text.fontName as FontName];
+  await Promise.all(fonts.map((font) => figma.loadFontAsync(font)));
+}
+
+function lineHeightParam(params: Record<string, unknown>): LineHeight | undefined {
+  if (params.lineHeight === "AUTO") return { unit: "AUTO" };
+  const pixels = numberParam(params, "lineHeight");
+  if (pixels != null) return { value: pixels, unit: "PIXELS" };
+  const percent = numberParam(params, "lineHeightPercent");
+  if (percent != null) return { value: percent, unit: "PERCENT" };
+  return undefined;
+}
+
+function letterSpacingParam(params: Record<string, unknown>): LetterSpacing | undefined {
+  const pixels = numberParam(params, "letterSpacing");
+  if (pixels != null) return { value: pixels, unit: "PIXELS" };
+  const percent = numberParam(params, "letterSpacingPercent");
+  if (percent != null) return { value: percent, unit: "PERCENT" };
+  return undefined;
+}
+
+function findTextRanges(text: TextNode, spec: Record<string, unknown>): TextRange[] {
+  const length = text.characters.length;
+  const match = stringParam(spec, "match");
+  if (match) {
+    const ranges: TextRange[] = [];
+    let from = text.characters.indexOf(match);
+    while (from >= 0) {
+      ranges.push({ start: from, end: from + match.length });
+      if (spec.all === false) break;
+      from = text.characters.indexOf(match, from + match.length);
+    }
+    if (ranges.length === 0) throw new Error(`Text "${match}" not found in ${text.name}.`);
+    return ranges;
+  }
+
+  const start = clampInt(numberParam(spec, "start") ?? 0, 0, length);
+  const end = clampInt(numberParam(spec, "end") ?? length, start, length);
+  if (start === end) throw new Error(`Empty text range ${start}-${end} in ${text.name}.`);
+  return [{ start, end }];
+}
+
+async function applyTextRangeStyle(text: TextNode, range: TextRange, spec: Record<string, unknown>): Promise<void> {
+  const { start, end } = range;
+  const family = stringParam(spec, "fontFamily");
+  const style = stringParam(spec, "fontStyle");
+  if (family || style) {
+    const current = text.getRangeFontName(start, start + 1) as FontName;
+    const fontName = await loadFontWithFallback(family ?? current.family, style ?? current.style);
+    text.setRangeFontName(start, end, fontName);
+  }
+
+  const fontSize = numberParam(spec, "fontSize");
+  if (fontSize != null) text.setRangeFontSize(start, end, Math.max(1, fontSize));
+
+  const fill = colorParam(spec, "fillR", "fillG", "fillB");
+  if (fill) {
+    const opacity = clamp01(numberParam(spec, "fillOpacity") ?? 1);
+    text.setRangeFills(start, end, [{ type: "SOLID", color: fill, opacity }]);
+  }
+
+  const lineHeight = lineHeightParam(spec);
+  if (lineHeight) text.setRangeLineHeight(start, end, lineHeight);
+
+  const letterSpacing = letterSpacingParam(spec);
+  if (letterSpacing) text.setRangeLetterSpacing(start, end, letterSpacing);
+
+  const decoration = enumParam(spec, "textDecoration", ["NONE", "UNDERLINE", "STRIKETHROUGH"] as const);
+  if (decoration) text.setRangeTextDecoration(start, end, decoration);
+
+  const textCase = enumParam(spec, "textCase", ["ORIGINAL", "UPPER", "LOWER", "TITLE"] as const);
+  if (textCase) text.setRangeTextCase(start, end, textCase);
+}
+
+async function applyTextLayoutParams(text: TextNode, params: Record<string, unknown>): Promise<void> {
+  const autoResize = enumParam(
+    params,
+    "textAutoResize",
+    ["NONE", "WIDTH_AND_HEIGHT", "HEIGHT", "TRUNCATE"] as const
+  );
+  const width = numberParam(params, "width");
+  if (width != null && autoResize === "WIDTH_AND_HEIGHT") {
+    throw new Error("width has no effect with textAutoResize WIDTH_AND_HEIGHT; use HEIGHT to wrap at a fixed width.");
+  }
+
+  const lineHeight = lineHeightParam(params);
+  if (lineHeight) text.lineHeight = lineHeight;
+
+  const letterSpacing = letterSpacingParam(params);
+  if (letterSpacing) text.letterSpacing = letterSpacing;
+
+  const decoration = enumParam(params, "textDecoration", ["NONE", "UNDERLINE", "STRIKETHROUGH"] as const);
+  if (decoration) text.textDecoration = decoration;
+
+  const textCase = enumParam(params, "textCase", ["ORIGINAL", "UPPER", "LOWER", "TITLE"] as const);
+  if (textCase) text.textCase = textCase;
+
+  const paragraphSpacing = numberParam(params, "paragraphSpacing");
+  if (paragraphSpacing != null) text.paragraphSpacing = paragraphSpacing;
+
+  const alignHorizontal = enumParam(
+    params,
+    "textAlignHorizontal",
+    ["LEFT", "CENTER", "RIGHT", "JUSTIFIED"] as const
+  );
+  if (alignHorizontal) text.textAlignHorizontal = alignHorizontal;
+
+  const alignVertical = enumParam(params, "textAlignVertical", ["TOP", "CENTER", "BOTTOM"] as const);
+  if (alignVertical) text.textAlignVertical = alignVertical;
+
+  if (width != null) {
+    // A fixed width only wraps when the height is allowed to follow the content.
+    text.resize(Math.max(1, width), numberParam(params, "height") ?? text.height);
+    text.textAutoResize = autoResize ?? "HEIGHT";
+  } else if (autoResize) {
+    text.textAutoResize = autoResize;
+  }
+
+  if (Array.isArray(params.ranges)) {
+    for (const entry of params.ranges) {
+      if (entry == null || typeof entry !== "object") continue;
+      const spec = entry as Record<string, unknown>;
+      for (const range of findTextRanges(text, spec)) {
+        await applyTextRangeStyle(text, range, spec);
+      }
+    }
+  }
+}
+
+async function resolveTextNode(params: Record<string, unknown>): Promise<TextNode> {
+  const node = await resolveTargetNode(params);
+  if (node.type !== "TEXT") throw new Error("Target node must be a text node.");
+  return node;
+}
+
+function textSummary(text: TextNode): Record<string, unknown> {
+  return {
+    id: text.id,
+    name: text.name,
+    characters: text.characters,
+    width: round(text.width),
+    height: round(text.height),
+    textAutoResize: text.textAutoResize,
+  };
+}
+
+async function buildFrame(params: Record<string, unknown>): Promise<FrameNode> {
+  const frame = figma.createFrame();
+  try {
+    frame.name = stringParam(params, "name") ?? "Frame";
+    frame.x = numberParam(params, "x") ?? 0;
+    frame.y = numberParam(params, "y") ?? 0;
+    frame.resize(numberParam(params, "width") ?? 100, numberParam(params, "height") ?? 100);
+    applyPaintParams(frame, params);
+    await applyStyleRefs(frame, params);
+
+    const cornerRadius = numberParam(params, "cornerRadius");
+    if (cornerRadius != null) frame.cornerRadius = cornerRadius;
+
+    applyAutoLayoutSettings(frame, params);
+  } catch (err) {
+    frame.remove();
+    throw err;
+  }
+  return frame;
+}
+
+async function buildComponent(params: Record<string, unknown>): Promise<ComponentNode> {
+  const component = figma.createComponent();
+  try {
+    component.name = stringParam(params, "name") ?? "Component";
+    component.x = numberParam(params, "x") ?? 0;
+    component.y = numberParam(params, "y") ?? 0;
+    component.resize(numberParam(params, "width") ?? 160, numberParam(params, "height") ?? 64);
+    applyPaintParams(component, params);
+    await applyStyleRefs(component, params);
+
+    const cornerRadius = numberParam(params, "cornerRadius");
+    if (cornerRadius != null) component.cornerRadius = cornerRadius;
+
+    applyAutoLayoutSettings(component, params);
+  } catch (err) {
+    component.remove();
+    throw err;
+  }
+  return component;
+}
+
+async function buildText(params: Record<string, unknown>): Promise<TextNode> {
+  const fontName = await loadFontWithFallback(
+    stringParam(params, "fontFamily") ?? "Inter",
+    stringParam(params, "fontStyle") ?? "Regular"
+  );
+
+  const text = figma.createText();
+  try {
+    text.fontName = fontName;
+    text.characters = stringParam(params, "text") ?? "Text";
+    text.fontSize = numberParam(params, "fontSize") ?? 16;
+    text.x = numberParam(params, "x") ?? 0;
+    text.y = numberParam(params, "y") ?? 0;
+    const name = stringParam(params, "name");
+    if (name) text.name = name;
+    applyPaintParams(text, params);
+    await applyStyleRefs(text, params);
+    await applyTextLayoutParams(text, params);
+  } catch (err) {
+    text.remove();
+    throw err;
+  }
+  return text;
+}
+
+async function buildRectangle(params: Record<string, unknown>): Promise<RectangleNode> {
+  const rect = figma.createRectangle();
+  try {
+    rect.name = stringParam(params, "name") ?? "Rectangle";
+    rect.resize(numberParam(params, "width") ?? 100, numberParam(params, "height") ?? 100);
+    rect.x = numberParam(params, "x") ?? 0;
+    rect.y = numberParam(params, "y") ?? 0;
+    applyPaintParams(rect, params);
+    await applyStyleRefs(rect, params);
+
+    const cornerRadius = numberParam(params, "cornerRadius");
+    if (cornerRadius != null) rect.cornerRadius = cornerRadius;
+  } catch (err) {
+    rect.remove();
+    throw err;
+  }
+  return rect;
+}
+
+async function buildEllipse(params: Record<string, unknown>): Promise<EllipseNode> {
+  const ellipse = figma.createEllipse();
+  try {
+    ellipse.name = stringParam(params, "name") ?? "Ellipse";
+    ellipse.resize(numberParam(params, "width") ?? 100, numberParam(params, "height") ?? 100);
+    ellipse.x = numberParam(params, "x") ?? 0;
+    ellipse.y = numberParam(params, "y") ?? 0;
+    applyPaintParams(ellipse, params);
+    await applyStyleRefs(ellipse, params);
+  } catch (err) {
+    ellipse.remove();
+    throw err;
+  }
+  return ellipse;
+}
+
+async function buildLine(params: Record<string, unknown>): Promise<LineNode> {
+  const line = figma.createLine();
+  try {
+    line.name = stringParam(params, "name") ?? "Line";
+    const length = numberParam(params, "length") ?? 120;
+    line.resize(length, 0);
+    line.x = numberParam(params, "x") ?? 0;
+    line.y = numberParam(params, "y") ?? 0;
+    applyPaintParams(line, params);
+    await applyStyleRefs(line, params);
+
+    const rotation = numberParam(params, "rotation");
+    if (rotation != null) line.rotation = rotation;
+  } catch (err) {
+    line.remove();
+    throw err;
+  }
+  return line;
+}
+
+async function buildPolygon(params: Record<string, unknown>): Promise<PolygonNode> {
+  const polygon = figma.createPolygon();
+  try {
+    polygon.name = stringParam(params, "name") ?? "Polygon";
+    const sides = numberParam(params, "sides");
+    if (sides != null) polygon.pointCount = clampInt(sides, 3, 60);
+    resizeRegularShape(polygon, params);
+    polygon.x = numberParam(params, "x") ?? 0;
+    polygon.y = numberParam(params, "y") ?? 0;
+    applyPaintParams(polygon, params);
+    await applyStyleRefs(polygon, params);
+  } catch (err) {
+    polygon.remove();
+    throw err;
+  }
+  return polygon;
+}
+
+async function buildStar(params: Record<string, unknown>): Promise<StarNode> {
+  const star = figma.createStar();
+  try {
+    star.name = stringParam(params, "name") ?? "Star";
+    const points = numberParam(params, "points");
+    if (points != null) star.pointCount = clampInt(points, 3, 60);
+    resizeRegularShape(star, params);
+    star.x = numberParam(params, "x") ?? 0;
+    star.y = numberParam(params, "y") ?? 0;
+    applyPaintParams(star, params);
+    await applyStyleRefs(star, params);
+  } catch (err) {
+    star.remove();
+    throw err;
+  }
+  return star;
+}
+
+function vectorPathsParam(params: Record<string, unknown>): VectorPath[] {
+  const windingRule = enumParam(params, "windingRule", ["NONZERO", "EVENODD"] as const) ?? "NONZERO";
+  const path = stringParam(params, "path");
+  if (path) return [{ windingRule, data: path }];
+  if (!Array.isArray(params.paths)) return [];
+  return params.paths.map((entry, index) => {
+    if (typeof entry === "string") return { windingRule, data: entry };
+    const data = entry != null && typeof entry === "object" ? stringParam(entry, "data") : undefined;
+    if (!data) throw new Error(`paths[${index}] needs data.`);
+    return { windingRule: enumParam(entry, "windingRule", ["NONZERO", "EVENODD"] as const) ?? windingRule, data };
+  });
+}
+
+function escapeXmlAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+}
+
+// Figma only accepts normalized absolute path data; routing through the SVG importer accepts any SVG path syntax.
+function vectorFromSvgPaths(paths: VectorPath[]): VectorNode {
+  const body = paths
+    .map((path) => `<path d="${escapeXmlAttribute(path.data)}" fill-rule="${path.windingRule === "EVENODD" ? "evenodd" : "nonzero"}"/>`)
+    .join("");
+  const wrapper = figma.createNodeFromSvg(`<svg xmlns="http://www.w3.org/2000/svg">${body}</svg>`);
+  try {
+    return figma.flatten(wrapper.children, figma.currentPage);
+  } finally {
+    wrapper.remove();
+  }
+}
+
+function fitToSize(node: SceneNode, params: Record<string, unknown>): void {
+  const width = numberParam(params, "width");
+  const height = numberParam(params, "height");
+  if ((width == null && height == null) || !("rescale" in node)) return;
+  // Scale uniformly so icons keep their proportions when only one side is given.
+  const scaleX = width != null && node.width > 0 ? width / node.width : null;
+  const scaleY = height != null && node.height > 0 ? height / node.height : null;
+  const scale = Math.min(scaleX ?? Infinity, scaleY ?? Infinity);
+  if (Number.isFinite(scale) && scale > 0) node.rescale(scale);
+}
+
+async function buildVector(params: Record<string, unknown>): Promise<VectorNode> {
+  let vector: VectorNode;
+  if (params.vectorNetwork != null && typeof params.vectorNetwork === "object") {
+    vector = figma.createVector();
+    try {
+      await vector.setVectorNetworkAsync(params.vectorNetwork as VectorNetwork);
+    } catch (err) {
+      vector.remove();
+      throw new Error(`Invalid vectorNetwork: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  } else {
+    const paths = vectorPathsParam(params);
+    if (paths.length === 0) throw new Error("path, paths or vectorNetwork is required.");
+    vector = figma.createVector();
+    try {
+      vector.vectorPaths = paths;
+    } catch {
+      vector.remove();
+      vector = vectorFromSvgPaths(paths);
+    }
+  }
+
+  try {
+    vector.name = stringParam(params, "name") ?? "Vector";
+    fitToSize(vector, params);
+    vector.x = numberParam(params, "x") ?? 0;
+    vector.y = numberParam(params, "y") ?? 0;
+    applyPaintParams(vector, params);
+    await applyStyleRefs(vector, params);
+  } catch (err) {
+    vector.remove();
+    throw err;
+  }
+  return vector;
+}
+
+async function buildSvg(params: Record<string, unknown>): Promise<FrameNode> {
+  const svg = stringParam(params, "svg");
+  if (!svg) throw new Error("svg markup is required.");
+  let node: FrameNode;
+  try {
+    node = figma.createNodeFromSvg(svg);
+  } catch (err) {
+    throw new Error(`Could not parse SVG: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  try {
+    node.name = stringParam(params, "name") ?? "SVG";
+    fitToSize(node, params);
+    node.x = numberParam(params, "x") ?? 0;
+    node.y = numberParam(params, "y") ?? 0;
+  } catch (err) {
+    node.remove();
+    throw err;
+  }
+  return node;
+}
+
+async function resolveNodeList(params: Record<string, unknown>, minimum: number): Promise<SceneNode[]> {
+  const ids = Array.isArray(params.nodeIds) ? params.nodeIds : [];
+  const nodes: SceneNode[] = [];
+  for (const id of ids) {
+    const node = typeof id === "string" ? await figma.getNodeByIdAsync(id) : null;
+    if (!isSceneNode(node)) throw new Error(`Node not found for id ${String(id)}`);
+    nodes.push(node);
+  }
+  if (nodes.length === 0) nodes.push(...figma.currentPage.selection);
+  if (nodes.length < minimum) throw new Error(`Provide at least ${minimum} node id(s) in nodeIds or select them.`);
+  for (const node of nodes) trackTarget(node);
+  return nodes;
+}
+
+function sharedParent(nodes: SceneNode[]): BaseNode & ChildrenMixin {
+  const parent = nodes[0].parent;
+  if (!parent || !("appendChild" in parent)) throw new Error("Nodes must have a parent.");
+  return parent as BaseNode & ChildrenMixin;
+}
+
+async function booleanOperation(params: Record<string, unknown>): Promise<unknown> {
+  const operation = enumParam(params, "operation", ["UNION", "SUBTRACT", "INTERSECT", "EXCLUDE"] as const);
+  if (!operation) throw new Error("operation must be UNION, SUBTRACT, INTERSECT or EXCLUDE.");
+  const nodes = await resolveNodeList(params, 2);
+  const parent = sharedParent(nodes);
+  const recordDeletion = pendingDeletion(nodes);
+
+  let result: BooleanOperationNode;
+  if (operation === "UNION") result = figma.union(nodes, parent);
+  else if (operation === "SUBTRACT") result = figma.subtract(nodes, parent);
+  else if (operation === "INTERSECT") result = figma.intersect(nodes, parent);
+  else result = figma.exclude(nodes, parent);
+
+  recordDeletion();
+  trackCreated(result);
+  const name = stringParam(params, "name");
+  if (name) result.name = name;
+  figma.currentPage.selection = [result];
+  return { id: result.id, name: result.name, operation: result.booleanOperation };
+}
+
+async function flattenNodes(params: Record<string, unknown>): Promise<unknown> {
+  const nodes = await resolveNodeList(params, 1);
+  const recordDeletion = pendingDeletion(nodes);
+  const vector = figma.flatten(nodes, sharedParent(nodes));
+  recordDeletion();
+  trackCreated(vector);
+  const name = stringParam(params, "name");
+  if (name) vector.name = name;
+  figma.currentPage.selection = [vector];
+  return { id: vector.id, name: vector.name, width: round(vector.width), height: round(vector.height) };
+}
+
+const SPEC_BUILDERS: Record<string, SpecNodeBuilder> = {
+  frame: buildFrame,
+  component: buildComponent,
+  text: buildText,
+  rectangle: buildRectangle,
+  ellipse: buildEllipse,
+  line: buildLine,
+  polygon: buildPolygon,
+  star: buildStar,
+  instance: buildInstance,
+  vector: buildVector,
+  svg: buildSvg,
+};
+
+function specNodeParams(spec: Record<string, unknown>): Record<string, unknown> {
+  const { type: _type, props, children: _children, ...inline } = spec;
+  return { ...inline, ...(props != null && typeof props === "object" ? props : {}) };
+}
+
+async function buildSpecNode(
+  spec: unknown,
+  path: string,
+  state: SpecBuildState,
+  parent?: SceneNode & ChildrenMixin
+): Promise<SceneNode> {
+  if (spec == null || typeof spec !== "object" || Array.isArray(spec)) {
+    throw new Error(`${path}: spec node must be an object.`);
+  }
+  const { type, children } = spec as Record<string, unknown>;
+  const builder = typeof type === "string" ? SPEC_BUILDERS[type.toLowerCase()] : undefined;
+  if (!builder) {
+    throw new Error(`${path}: unknown type ${String(type)}. Use one of ${Object.keys(SPEC_BUILDERS).join(", ")}.`);
+  }
+  state.count += 1;
+  if (state.count > SPEC_MAX_NODES) {
+    throw new Error(`Spec exceeds ${SPEC_MAX_NODES} nodes.`);
+  }
+
+  const params = specNodeParams(spec as Record<string, unknown>);
+  const node = await builder(params);
+
+  try {
+    if (parent) {
+      parent.appendChild(node);
+      // Child sizing such as FILL is only valid once the node sits inside its auto-layout parent.
+      applyLayoutChildSettings(node, params);
+    }
+    if (children != null) {
+      if (!Array.isArray(children)) throw new Error(`${path}: children must be an array.`);
+      if (!("appendChild" in node)) throw new Error(`${path}: ${node.type} cannot contain children.`);
+      const container = node as SceneNode & ChildrenMixin;
+      for (let i = 0; i < children.length; i += 1) {
+        await buildSpecNode(children[i], `${path}.children[${i}]`, state, container);
+      }
+    }
+  } catch (err) {
+    node.remove();
+    throw err;
+  }
+  return node;
+}
+
+function summarizeSpecNode(node: SceneNode): Record<string, unknown> {
+  const out: Record<string, unknown> = { id: node.id, name: node.name, type: node.type };
+  if ("children" in node && node.children.length > 0) {
+    out.children = node.children.map(summarizeSpecNode);
+  }
+  return out;
+}
+
+async function createFromSpec(params: Record<string, unknown>): Promise<unknown> {
+  const state: SpecBuildState = { count: 0 };
+  const root = await buildSpecNode(params.spec, "spec", state);
+  // The root's own props (layout sizing, x/y) place it together with the call's target params.
+  const placement = { ...specNodeParams(params.spec as Record<string, unknown>), ...params };
+  try {
+    await appendAndFocus(root, placement);
+  } catch (err) {
+    if (!root.removed) root.remove();
+    throw err;
+  }
+  return { id: root.id, name: root.name, nodeCount: state.count, tree: summarizeSpecNode(root) };
+}
+
+function nodeGeometry(node: SceneNode): Record<string, unknown> {
+  const parent = node.parent;
+  return {
+    id: node.id,
+    name: node.name,
+    type: node.type,
+    parentId: parent ? parent.id : null,
+    index: parent && "children" in parent ? parent.children.indexOf(node) : null,
+    x: round(node.x),
+    y: round(node.y),
+    width: round(node.width),
+    height: round(node.height),
+    absoluteX: round(node.absoluteTransform[0][2]),
+    absoluteY: round(node.absoluteTransform[1][2]),
+    rotation: "rotation" in node ? round(node.rotation) : 0,
+  };
+}
+
+function isAncestorOf(candidate: BaseNode, node: BaseNode): boolean {
+  let current: BaseNode | null = node;
+  while (current) {
+    if (current.id === candidate.id) return true;
+    current = current.parent;
+  }
+  return false;
+}
+
+function insertAt(parent: BaseNode & ChildrenMixin, node: SceneNode, index: number | undefined): void {
+  if (index == null) {
+    parent.appendChild(node);
+    return;
+  }
+  // Removing the node from this same parent first shifts later siblings down by one.
+  const currentIndex = node.parent === parent ? parent.children.indexOf(node) : -1;
+  const max = currentIndex >= 0 ? parent.children.length - 1 : parent.children.length;
+  parent.insertChild(clampInt(index, 0, max), node);
+}
+
+function applyGeometryParams(node: SceneNode, params: Record<string, unknown>): void {
+  const x = numberParam(params, "x");
+  const y = numberParam(params, "y");
+  const dx = numberParam(params, "dx");
+  const dy = numberParam(params, "dy");
+  if (x != null) node.x = x;
+  if (y != null) node.y = y;
+  if (dx != null) node.x += dx;
+  if (dy != null) node.y += dy;
+
+  const width = numberParam(params, "width");
+  const height = numberParam(params, "height");
+  if (width != null || height != null) {
+    if (!("resize" in node)) throw new Error(`${node.type} nodes cannot be resized.`);
+    const nextWidth = Math.max(0.01, width ?? node.width);
+    const nextHeight = node.type === "LINE" ? 0 : Math.max(0.01, height ?? node.height);
+    node.resize(nextWidth, nextHeight);
+  }
+
+  const rotation = numberParam(params, "rotation");
+  if (rotation != null) {
+    if (!("rotation" in node)) throw new Error(`${node.type} nodes cannot be rotated.`);
+    node.rotation = rotation;
+  }
+}
+
+async function updateNode(params: Record<string, unknown>): Promise<unknown> {
+  const node = await resolveTargetNode(params);
+  const name = stringParam(params, "name");
+  if (name != null) node.name = name;
+  applyGeometryParams(node, params);
+
+  const opacity = numberParam(params, "opacity");
+  if (opacity != null) {
+    if (!("opacity" in node)) throw new Error(`${node.type} nodes do not support opacity.`);
+    node.opacity = clamp01(opacity);
+  }
+  if (typeof params.visible === "boolean") node.visible = params.visible;
+  if (typeof params.locked === "boolean") node.locked = params.locked;
+
+  figma.currentPage.selection = [node];
+  return nodeGeometry(node);
+}
+
+async function reparentNode(params: Record<string, unknown>): Promise<unknown> {
+  const node = await resolveTargetNode(params);
+  const parentId = stringParam(params, "parentId");
+  const parent = parentId ? await resolveParentNode(parentId) : node.parent;
+  if (!parent || !("appendChild" in parent)) {
+    throw new Error("Node has no parent; provide parentId.");
+  }
+  if (isAncestorOf(node, parent)) {
+    throw new Error("Cannot move a node into itself or one of its descendants.");
+  }
+
+  const container = parent as BaseNode & ChildrenMixin;
+  insertAt(container, node, numberParam(params, "index"));
+  applyGeometryParams(node, params);
+  figma.currentPage.selection = [node];
+  return nodeGeometry(node);
+}
+
+async function duplicateNode(params: Record<string, unknown>): Promise<unknown> {
+  const node = await resolveTargetNode(params);
+  const clone = node.clone();
+  trackCreated(clone);
+
+  const parentId = stringParam(params, "parentId");
+  const index = numberParam(params, "index");
+  if (parentId) {
+    insertAt(await resolveParentNode(parentId), clone, index);
+  } else if (node.parent && "insertChild" in node.parent) {
+    const parent = node.parent as BaseNode & ChildrenMixin;
+    insertAt(parent, clone, index ?? parent.children.indexOf(node) + 1);
+  }
+
+  const name = stringParam(params, "name");
+  if (name != null) clone.name = name;
+  applyGeometryParams(clone, params);
+  figma.currentPage.selection = [clone];
+  return nodeGeometry(clone);
+}
+
+async function deleteNodes(params: Record<string, unknown>): Promise<unknown> {
+  const ids: string[] = [];
+  const nodeId = stringParam(params, "nodeId");
+  if (nodeId) ids.push(nodeId);
+  if (Array.isArray(params.nodeIds)) {
+    for (const id of params.nodeIds) {
+      if (typeof id === "string") ids.push(id);
+    }
+  }
+  if (ids.length === 0) throw new Error("nodeId or nodeIds is required.");
+
+  const deleted: Array<{ id: string; name: string }> = [];
+  const missing: string[] = [];
+  for (const id of ids) {
+    const node = await figma.getNodeByIdAsync(id);
+    if (!isSceneNode(node) || node.removed) {
+      missing.push(id);
+      continue;
+    }
+    deleted.push({ id: node.id, name: node.name });
+    trackDeleted(node);
+    node.remove();
+  }
+  return { deleted, missing };
+}
+
+async function findComponentsByName(name: string): Promise<Array<ComponentNode | ComponentSetNode>> {
+  const types: Array<"COMPONENT" | "COMPONENT_SET"> = ["COMPONENT", "COMPONENT_SET"];
+  const onPage = figma.currentPage.findAllWithCriteria({ types }).filter((node) => node.name === name);
+  if (onPage.length > 0) return onPage;
+  await figma.loadAllPagesAsync();
+  return figma.root.findAllWithCriteria({ types }).filter((node) => node.name === name);
+}
+
+function pickVariant(set: ComponentSetNode, params: Record<string, unknown>): ComponentNode {
+  const variant = params.variant;
+  if (variant == null || typeof variant !== "object") return set.defaultVariant;
+  const wanted = Object.entries(variant as Record<string, unknown>);
+  for (const child of set.children) {
+    if (child.type !== "COMPONENT") continue;
+    const props = child.variantProperties ?? {};
+    if (wanted.every(([key, value]) => props[key] === String(value))) return child;
+  }
+  throw new Error(`No variant of ${set.name} matches ${JSON.stringify(variant)}.`);
+}
+
+async function resolveComponent(params: Record<string, unknown>): Promise<ComponentNode> {
+  const componentKey = stringParam(params, "componentKey");
+  if (componentKey) return figma.importComponentByKeyAsync(componentKey);
+
+  const componentId = stringParam(params, "componentId");
+  const componentName = stringParam(params, "componentName");
+  let node: BaseNode | null = null;
+  if (componentId) {
+    node = await figma.getNodeByIdAsync(componentId);
+  } else if (componentName) {
+    const matches = await findComponentsByName(componentName);
+    if (matches.length > 1) {
+      throw new Error(`${matches.length} components are named ${componentName}; pass componentId instead.`);
+    }
+    node = matches[0] ?? null;
+  } else {
+    throw new Error("componentId, componentName or componentKey is required.");
+  }
+
+  if (node && node.type === "COMPONENT") return node;
+  if (node && node.type === "COMPONENT_SET") return pickVariant(node, params);
+  throw new Error(`Component not found: ${componentId ?? componentName}`);
+}
+
+function resolvePropertyKey(definitions: ComponentPropertyDefinitions | ComponentProperties, name: string): string {
+  if (name in definitions) return name;
+  const key = Object.keys(definitions).find((candidate) => candidate.split("#")[0] === name);
+  if (!key) {
+    const known = Object.keys(definitions).map((candidate) => candidate.split("#")[0]);
+    throw new Error(`Unknown component property ${name}. Available: ${known.join(", ") || "none"}.`);
+  }
+  return key;
+}
+
+async function buildInstance(params: Record<string, unknown>): Promise<InstanceNode> {
+  const component = await resolveComponent(params);
+  const instance = component.createInstance();
+  try {
+    const name = stringParam(params, "name");
+    if (name) instance.name = name;
+    instance.x = numberParam(params, "x") ?? 0;
+    instance.y = numberParam(params, "y") ?? 0;
+    const width = numberParam(params, "width");
+    const height = numberParam(params, "height");
+    if (width != null || height != null) instance.resize(width ?? instance.width, height ?? instance.height);
+    await applyInstanceProperties(instance, params);
+  } catch (err) {
+    instance.remove();
+    throw err;
+  }
+  return instance;
+}
+
+async function combineAsVariants(params: Record<string, unknown>): Promise<unknown> {
+  const ids = Array.isArray(params.componentIds) ? params.componentIds : [];
+  const components: ComponentNode[] = [];
+  for (const id of ids) {
+    const node = typeof id === "string" ? await figma.getNodeByIdAsync(id) : null;
+    if (!node || node.type !== "COMPONENT") throw new Error(`Not a component: ${String(id)}`);
+    components.push(node);
+  }
+  if (components.length === 0) throw new Error("componentIds must list at least one component.");
+
+  const parentId = stringParam(params, "parentId");
+  const firstParent = components[0].parent;
+  const parent = parentId
+    ? await resolveParentNode(parentId)
+    : firstParent && "appendChild" in firstParent
+      ? (firstParent as BaseNode & ChildrenMixin)
+      : figma.currentPage;
+
+  for (const component of components) trackChanged(component);
+  const set = figma.combineAsVariants(components, parent);
+  trackCreated(set);
+  const name = stringParam(params, "name");
+  if (name) set.name = name;
+  figma.currentPage.selection = [set];
+  return {
+    id: set.id,
+    name: set.name,
+    variants: set.children.map((child) => ({ id: child.id, name: child.name })),
+    properties: Object.keys(set.componentPropertyDefinitions),
+  };
+}
+
+async function addComponentProperty(params: Record<string, unknown>): Promise<unknown> {
+  const node = await resolveTargetNode(params);
+  if (node.type !== "COMPONENT" && node.type !== "COMPONENT_SET") {
+    throw new Error("Target node must be a component or component set.");
+  }
+  if (node.type === "COMPONENT" && node.parent && node.parent.type === "COMPONENT_SET") {
+    throw new Error("Add properties to the component set, not to one of its variants.");
+  }
+
+  const propertyName = stringParam(params, "propertyName");
+  if (!propertyName) throw new Error("propertyName is required.");
+  const type = enumParam(params, "type", ["BOOLEAN", "TEXT", "INSTANCE_SWAP"] as const);
+  if (!type) throw new Error("type must be BOOLEAN, TEXT or INSTANCE_SWAP.");
+
+  let defaultValue: string | boolean;
+  if (type === "BOOLEAN") {
+    defaultValue = params.defaultValue !== false;
+  } else if (type === "TEXT") {
+    defaultValue = typeof params.defaultValue === "string" ? params.defaultValue : propertyName;
+  } else {
+    const swap = await resolveComponent({ componentId: params.defaultValue, componentName: params.defaultComponentName });
+    defaultValue = swap.id;
+  }
+
+  const key = node.addComponentProperty(propertyName, type, defaultValue);
+
+  const targetNodeId = stringParam(params, "targetNodeId");
+  if (targetNodeId) {
+    const target = await figma.getNodeByIdAsync(targetNodeId);
+    if (!isSceneNode(target) || !isAncestorOf(node, target) || target.id === node.id) {
+      throw new Error(`targetNodeId must be a layer inside ${node.name}.`);
+    }
+    trackChanged(target);
+    if (type === "BOOLEAN") {
+      target.componentPropertyReferences = { ...(target.componentPropertyReferences ?? {}), visible: key };
+    } else if (type === "TEXT") {
+      if (target.type !== "TEXT") throw new Error("TEXT properties must be bound to a text layer.");
+      target.componentPropertyReferences = { ...(target.componentPropertyReferences ?? {}), characters: key };
+    } else {
+      if (target.type !== "INSTANCE") throw new Error("INSTANCE_SWAP properties must be bound to an instance layer.");
+      target.componentPropertyReferences = { ...(target.componentPropertyReferences ?? {}), mainComponent: key };
+    }
+  }
+
+  return { id: node.id, name: node.name, propertyKey: key, type };
+}
+
+async function applyInstanceProperties(instance: InstanceNode, params: Record<string, unknown>): Promise<void> {
+  const swapComponentId = stringParam(params, "swapComponentId");
+  if (swapComponentId) {
+    instance.swapComponent(await resolveComponent({ componentId: swapComponentId }));
+  }
+
+  if (params.properties != null && typeof params.properties === "object") {
+    const values: Record<string, string | boolean> = {};
+    for (const [name, value] of Object.entries(params.properties as Record<string, unknown>)) {
+      const key = resolvePropertyKey(instance.componentProperties, name);
+      values[key] = typeof value === "boolean" ? value : String(value);
+    }
+    instance.setProperties(values);
+  }
+
+  if (Array.isArray(params.overrides)) {
+    for (const entry of params.overrides) {
+      if (entry == null || typeof entry !== "object") continue;
+      const override = entry as Record<string, unknown>;
+      const layerName = stringParam(override, "layerName");
+      const layerId = stringParam(override, "nodeId");
+      const target = instance.findOne((child) => child.id === layerId || (!layerId && child.name === layerName));
+      if (!target) throw new Error(`No layer ${layerId ?? layerName} inside ${instance.name}.`);
+
+      const text = stringParam(override, "text");
+      if (text != null) {
+        if (target.type !== "TEXT") throw new Error(`${target.name} is not a text layer.`);
+        await loadTextNodeFonts(target);
+        target.characters = text;
+      }
+      applyPaintParams(target, override);
+      if (typeof override.visible === "boolean") target.visible = override.visible;
+    }
+  }
+}
+
+const BINDABLE_NODE_FIELDS: readonly VariableBindableNodeField[] = [
+  "height", "width", "characters", "itemSpacing", "paddingLeft", "paddingRight", "paddingTop", "paddingBottom",
+  "visible", "topLeftRadius", "topRightRadius", "bottomLeftRadius", "bottomRightRadius", "minWidth", "maxWidth",
+  "minHeight", "maxHeight", "counterAxisSpacing", "strokeWeight", "opacity",
+];
+
+const BINDING_GROUPS: Record<string, VariableBindableNodeField[]> = {
+  cornerRadius: ["topLeftRadius", "topRightRadius", "bottomLeftRadius", "bottomRightRadius"],
+  padding: ["paddingTop", "paddingRight", "paddingBottom", "paddingLeft"],
+  paddingX: ["paddingLeft", "paddingRight"],
+  paddingY: ["paddingTop", "paddingBottom"],
+};
+
+async function resolveVariableCollection(params: Record<string, unknown>): Promise<VariableCollection> {
+  const collectionId = stringParam(params, "collectionId");
+  if (collectionId) {
+    const collection = await figma.variables.getVariableCollectionByIdAsync(collectionId);
+    if (!collection) throw new Error(`Variable collection not found: ${collectionId}`);
+    return collection;
+  }
+  const collectionName = stringParam(params, "collectionName");
+  if (!collectionName) throw new Error("collectionId or collectionName is required.");
+  const collections = await figma.variables.getLocalVariableCollectionsAsync();
+  const match = collections.find((collection) => collection.name === collectionName);
+  if (!match) throw new Error(`Variable collection not found: ${collectionName}`);
+  return match;
+}
+
+async function resolveVariable(params: Record<string, unknown>): Promise<Variable> {
+  const variableId = stringParam(params, "variableId");
+  if (variableId) {
+    const variable = await figma.variables.getVariableByIdAsync(variableId);
+    if (!variable) throw new Error(`Variable not found: ${variableId}`);
+    return variable;
+  }
+  const variableName = stringParam(params, "variableName");
+  if (!variableName) throw new Error("variableId or variableName is required.");
+  const collectionName = stringParam(params, "collectionName");
+  const collectionId = collectionName ? (await resolveVariableCollection({ collectionName })).id : null;
+  const matches = (await figma.variables.getLocalVariablesAsync()).filter(
+    (variable) => variable.name === variableName && (!collectionId || variable.variableCollectionId === collectionId)
+  );
+  if (matches.length === 0) throw new Error(`Variable not found: ${variableName}`);
+  if (matches.length > 1) throw new Error(`${variableName} exists in several collections; pass collectionName.`);
+  return matches[0];
+}
+
+function toVariableValue(type: VariableResolvedDataType, value: unknown, label: string): VariableValue {
+  if (value != null && typeof value === "object" && typeof (value as Record<string, unknown>).aliasOf === "string") {
+    return { type: "VARIABLE_ALIAS", id: (value as Record<string, string>).aliasOf };
+  }
+  switch (type) {
+    case "COLOR":
+      return requireColor(value, label);
+    case "FLOAT":
+      if (typeof value !== "number" || !Number.isFinite(value)) throw new Error(`${label} must be a number.`);
+      return value;
+    case "STRING":
+      return String(value);
+    case "BOOLEAN":
+      return value === true;
+  }
+}
+
+function serializeVariableValue(value: VariableValue): unknown {
+  if (value != null && typeof value === "object") {
+    if ("type" in value && value.type === "VARIABLE_ALIAS") return { aliasOf: value.id };
+    if ("r" in value) return serializeColor(value);
+  }
+  return value;
+}
+
+function serializeVariable(variable: Variable, collection: VariableCollection): Record<string, unknown> {
+  const valuesByMode: Record<string, unknown> = {};
+  for (const mode of collection.modes) {
+    const value = variable.valuesByMode[mode.modeId];
+    if (value !== undefined) valuesByMode[mode.name] = serializeVariableValue(value);
+  }
+  return { id: variable.id, name: variable.name, type: variable.resolvedType, valuesByMode };
+}
+
+async function createVariableCollection(params: Record<string, unknown>): Promise<unknown> {
+  const name = stringParam(params, "name");
+  if (!name) throw new Error("name is required.");
+  const collection = figma.variables.createVariableCollection(name);
+  const modes = Array.isArray(params.modes) ? params.modes.filter((m): m is string => typeof m === "string") : [];
+  try {
+    if (modes.length > 0) {
+      collection.renameMode(collection.modes[0].modeId, modes[0]);
+      for (const mode of modes.slice(1)) collection.addMode(mode);
+    }
+  } catch (err) {
+    // addMode fails past the plan's mode limit; don't leave a half-configured collection behind.
+    collection.remove();
+    throw err;
+  }
+  trackCreatedAsset(collection);
+  return { id: collection.id, name: collection.name, modes: collection.modes };
+}
+
+async function createVariable(params: Record<string, unknown>): Promise<unknown> {
+  const collection = await resolveVariableCollection(params);
+  const name = stringParam(params, "name");
+  if (!name) throw new Error("name is required.");
+  const type = enumParam(params, "type", ["COLOR", "FLOAT", "STRING", "BOOLEAN"] as const);
+  if (!type) throw new Error("type must be COLOR, FLOAT, STRING or BOOLEAN.");
+
+  const variable = figma.variables.createVariable(name, collection, type);
+  try {
+    if (params.values != null && typeof params.values === "object") {
+      for (const [modeName, value] of Object.entries(params.values as Record<string, unknown>)) {
+        const mode = collection.modes.find((m) => m.name === modeName || m.modeId === modeName);
+        if (!mode) throw new Error(`Unknown mode ${modeName} in ${collection.name}.`);
+        variable.setValueForMode(mode.modeId, toVariableValue(type, value, `values.${modeName}`));
+      }
+    } else if (params.value !== undefined) {
+      const value = toVariableValue(type, params.value, "value");
+      for (const mode of collection.modes) variable.setValueForMode(mode.modeId, value);
+    }
+  } catch (err) {
+    variable.remove();
+    throw err;
+  }
+  trackCreatedAsset(variable);
+  return serializeVariable(variable, collection);
+}
+
+async function listVariables(params: Record<string, unknown>): Promise<unknown> {
+  const collectionName = stringParam(params, "collectionName");
+  const collections = (await figma.variables.getLocalVariableCollectionsAsync()).filter(
+    (collection) => !collectionName || collection.name === collectionName
+  );
+  const variables = await figma.variables.getLocalVariablesAsync();
+  return {
+    collections: collections.map((collection) => ({
+      id: collection.id,
+      name: collection.name,
+      modes: collection.modes,
+      variables: variables
+        .filter((variable) => variable.variableCollectionId === collection.id)
+        .map((variable) => serializeVariable(variable, collection)),
+    })),
+  };
+}
+
+function bindPaintColor(paints: ReadonlyArray<Paint>, variable: Variable): Paint[] {
+  const solid = paints.length > 0 && paints[0].type === "SOLID"
+    ? (paints[0] as SolidPaint)
+    : ({ type: "SOLID", color: { r: 0, g: 0, b: 0 } } as SolidPaint);
+  const bound = figma.variables.setBoundVariableForPaint(solid, "color", variable);
+  return [bound, ...paints.slice(paints.length > 0 && paints[0].type === "SOLID" ? 1 : 0)];
+}
+
+async function bindVariable(params: Record<string, unknown>): Promise<unknown> {
+  const node = await resolveTargetNode(params);
+  const field = stringParam(params, "field");
+  if (!field) throw new Error("field is required.");
+  const variable = await resolveVariable(params);
+
+  if (field === "fills" || field === "strokes") {
+    if (variable.resolvedType !== "COLOR") throw new Error(`${field} can only be bound to COLOR variables.`);
+    if (field === "fills") {
+      if (!isFillableNode(node) || node.fills === figma.mixed) throw new Error("Target node does not support fills.");
+      node.fills = bindPaintColor(node.fills, variable);
+    } else {
+      if (!("strokes" in node)) throw new Error("Target node does not support strokes.");
+      node.strokes = bindPaintColor(node.strokes, variable);
+    }
+    return { id: node.id, name: node.name, field, variableId: variable.id, variableName: variable.name };
+  }
+
+  const fields = BINDING_GROUPS[field]
+    ?? ((BINDABLE_NODE_FIELDS as readonly string[]).includes(field) ? [field as VariableBindableNodeField] : null);
+  if (!fields) {
+    throw new Error(`Unsupported field ${field}. Use fills, strokes, ${Object.keys(BINDING_GROUPS).join(", ")} or ${BINDABLE_NODE_FIELDS.join(", ")}.`);
+  }
+  for (const key of fields) {
+    if (!(key in node)) throw new Error(`${node.type} nodes have no ${key}.`);
+    node.setBoundVariable(key, variable);
+  }
+  return { id: node.id, name: node.name, fields, variableId: variable.id, variableName: variable.name };
+}
+
+async function setVariableMode(params: Record<string, unknown>): Promise<unknown> {
+  const node = await resolveTargetNode(params);
+  const collection = await resolveVariableCollection(params);
+  const modeName = stringParam(params, "mode");
+  const mode = collection.modes.find((m) => m.name === modeName || m.modeId === modeName);
+  if (!mode) throw new Error(`Unknown mode ${modeName} in ${collection.name}.`);
+  node.setExplicitVariableModeForCollection(collection, mode.modeId);
+  return { id: node.id, name: node.name, collection: collection.name, mode: mode.name };
+}
+
+const TYPE_SCALE: ReadonlyArray<{ name: string; fontSize: number; fontStyle: string; lineHeight: number }> = [
+  { name: "Caption", fontSize: 12, fontStyle: "Regular", lineHeight: 16 },
+  { name: "Body/Small", fontSize: 14, fontStyle: "Regular", lineHeight: 20 },
+  { name: "Body/Default", fontSize: 16, fontStyle: "Regular", lineHeight: 24 },
+  { name: "Body/Lead", fontSize: 18, fontStyle: "Regular", lineHeight: 28 },
+  { name: "Body/Large", fontSize: 20, fontStyle: "Semi Bold", lineHeight: 28 },
+  { name: "Heading/H3", fontSize: 24, fontStyle: "Semi Bold", lineHeight: 32 },
+  { name: "Heading/H2", fontSize: 30, fontStyle: "Semi Bold", lineHeight: 36 },
+  { name: "Heading/H1", fontSize: 36, fontStyle: "Bold", lineHeight: 40 },
+  { name: "Display/Small", fontSize: 48, fontStyle: "Bold", lineHeight: 48 },
+  { name: "Display/Medium", fontSize: 60, fontStyle: "Bold", lineHeight: 60 },
+  { name: "Display/Large", fontSize: 72, fontStyle: "Bold", lineHeight: 72 },
+];
+
+async function findPaintStyle(params: Record<string, unknown>, idKey: string, nameKey: string): Promise<PaintStyle | null> {
+  const styleId = stringParam(params, idKey);
+  if (styleId) {
+    const style = await figma.getStyleByIdAsync(styleId);
+    if (!style || style.type !== "PAINT") throw new Error(`Paint style not found: ${styleId}`);
+    return style as PaintStyle;
+  }
+  const styleName = stringParam(params, nameKey);
+  if (!styleName) return null;
+  const style = (await figma.getLocalPaintStylesAsync()).find((candidate) => candidate.name === styleName);
+  if (!style) throw new Error(`Paint style not found: ${styleName}`);
+  return style;
+}
+
+async function findTextStyle(params: Record<string, unknown>): Promise<TextStyle | null> {
+  const styleId = stringParam(params, "textStyleId");
+  if (styleId) {
+    const style = await figma.getStyleByIdAsync(styleId);
+    if (!style || style.type !== "TEXT") throw new Error(`Text style not found: ${styleId}`);
+    return style as TextStyle;
+  }
+  const styleName = stringParam(params, "textStyleName");
+  if (!styleName) return null;
+  const style = (await figma.getLocalTextStylesAsync()).find((candidate) => candidate.name === styleName);
+  if (!style) throw new Error(`Text style not found: ${styleName}`);
+  return style;
+}
+
+async function applyStyleRefs(node: SceneNode, params: Record<string, unknown>): Promise<void> {
+  const fillStyle = await findPaintStyle(params, "fillStyleId", "fillStyleName");
+  if (fillStyle) {
+    if (!("setFillStyleIdAsync" in node)) throw new Error(`${node.type} nodes do not support fill styles.`);
+    await node.setFillStyleIdAsync(fillStyle.id);
+  }
+
+  const strokeStyle = await findPaintStyle(params, "strokeStyleId", "strokeStyleName");
+  if (strokeStyle) {
+    if (!("setStrokeStyleIdAsync" in node)) throw new Error(`${node.type} nodes do not support stroke styles.`);
+    await node.setStrokeStyleIdAsync(strokeStyle.id);
+  }
+
+  const textStyle = await findTextStyle(params);
+  if (textStyle) {
+    if (node.type !== "TEXT") throw new Error("Text styles can only be applied to text nodes.");
+    await figma.loadFontAsync(textStyle.fontName);
+    await node.setTextStyleIdAsync(textStyle.id);
+  }
+}
+
+function serializeStyle(style: PaintStyle | TextStyle): Record<string, unknown> {
+  const out: Record<string, unknown> = { id: style.id, name: style.name, type: style.type };
+  if (style.type === "PAINT") {
+    out.paints = style.paints.map(serializePaint);
+  } else {
+    out.fontName = style.fontName;
+    out.fontSize = style.fontSize;
+    out.lineHeight = style.lineHeight;
+    out.letterSpacing = style.letterSpacing;
+  }
+  return out;
+}
+
+async function listStyles(params: Record<string, unknown>): Promise<unknown> {
+  const type = enumParam(params, "type", ["PAINT", "TEXT"] as const);
+  const paint = type === "TEXT" ? [] : await figma.getLocalPaintStylesAsync();
+  const text = type === "PAINT" ? [] : await figma.getLocalTextStylesAsync();
+  return {
+    paintStyles: paint.map(serializeStyle),
+    textStyles: text.map(serializeStyle),
+  };
+}
+
+async function createPaintStyle(params: Record<string, unknown>): Promise<unknown> {
+  const name = stringParam(params, "name");
+  if (!name) throw new Error("name is required.");
+  let paints: Paint[];
+  if (params.fills != null) {
+    paints = buildPaints(params.fills, "fills");
+  } else if (params.color != null) {
+    paints = [buildPaint({ type: "SOLID", color: params.color }, "color")];
+  } else {
+    const fill = colorParam(params, "fillR", "fillG", "fillB");
+    if (!fill) throw new Error("Provide fills, color or fillR/fillG/fillB.");
+    paints = [{ type: "SOLID", color: fill, opacity: clamp01(numberParam(params, "fillOpacity") ?? 1) }];
+  }
+
+  const existing = (await figma.getLocalPaintStylesAsync()).find((style) => style.name === name);
+  if (existing) trackStyleChanged(existing);
+  const style = existing ?? figma.createPaintStyle();
+  if (!existing) trackCreatedAsset(style);
+  style.name = name;
+  style.paints = paints;
+  const description = stringParam(params, "description");
+  if (description != null) style.description = description;
+  return { ...serializeStyle(style), updated: existing != null };
+}
+
+async function upsertTextStyle(params: Record<string, unknown>): Promise<{ style: TextStyle; updated: boolean }> {
+  const name = stringParam(params, "name");
+  if (!name) throw new Error("name is required.");
+  const family = stringParam(params, "fontFamily");
+  const fontStyle = stringParam(params, "fontStyle");
+  const fontSize = numberParam(params, "fontSize");
+
+  const existing = (await figma.getLocalTextStylesAsync()).find((style) => style.name === name);
+  if (existing) await figma.loadFontAsync(existing.fontName);
+  if (existing) trackStyleChanged(existing);
+  const style = existing ?? figma.createTextStyle();
+  if (!existing) trackCreatedAsset(style);
+  style.name = name;
+  // Updating by name only touches the font and size when they were passed.
+  if (!existing || family || fontStyle) {
+    style.fontName = await loadFontWithFallback(
+      family ?? (existing ? existing.fontName.family : "Inter"),
+      fontStyle ?? (existing ? existing.fontName.style : "Regular")
+    );
+  }
+  if (!existing || fontSize != null) style.fontSize = fontSize ?? 16;
+
+  const lineHeight = lineHeightParam(params);
+  if (lineHeight) style.lineHeight = lineHeight;
+  const letterSpacing = letterSpacingParam(params);
+  if (letterSpacing) style.letterSpacing = letterSpacing;
+  const paragraphSpacing = numberParam(params, "paragraphSpacing");
+  if (paragraphSpacing != null) style.paragraphSpacing = paragraphSpacing;
+  const decoration = enumParam(params, "textDecoration", ["NONE", "UNDERLINE", "STRIKETHROUGH"] as const);
+  if (decoration) style.textDecoration = decoration;
+  const textCase = enumParam(params, "textCase", ["ORIGINAL", "UPPER", "LOWER", "TITLE"] as const);
+  if (textCase) style.textCase = textCase;
+  const description = stringParam(params, "description");
+  if (description != null) style.description = description;
+  return { style, updated: existing != null };
+}
+
+async function createTypeScaleStyles(params: Record<string, unknown>): Promise<unknown> {
+  const fontFamily = stringParam(params, "fontFamily") ?? "Inter";
+  const prefix = stringParam(params, "prefix");
+  const styles: Array<Record<string, unknown>> = [];
+  for (const step of TYPE_SCALE) {
+    const { style, updated } = await upsertTextStyle({
+      name: prefix ? `${prefix}/${step.name}` : step.name,
+      fontFamily,
+      fontStyle: step.fontStyle,
+      fontSize: step.fontSize,
+      lineHeight: step.lineHeight,
+    });
+    styles.push({ id: style.id, name: style.name, fontSize: style.fontSize, updated });
+  }
+  return { styles };
+}
+
+async function applyStyle(params: Record<string, unknown>): Promise<unknown> {
+  const node = await resolveTargetNode(params);
+  const styleId = stringParam(params, "styleId");
+  const styleName = stringParam(params, "styleName");
+  const target = enumParam(params, "target", ["fill", "stroke", "text"] as const);
+
+  let refs: Record<string, unknown>;
+  if (styleId) {
+    const style = await figma.getStyleByIdAsync(styleId);
+    if (!style) throw new Error(`Style not found: ${styleId}`);
+    if (style.type === "TEXT") refs = { textStyleId: styleId };
+    else if (target === "stroke") refs = { strokeStyleId: styleId };
+    else refs = { fillStyleId: styleId };
+  } else if (styleName) {
+    if (target === "text" || (!target && node.type === "TEXT"
+      && (await figma.getLocalTextStylesAsync()).some((style) => style.name === styleName))) {
+      refs = { textStyleName: styleName };
+    } else if (target === "stroke") {
+      refs = { strokeStyleName: styleName };
+    } else {
+      refs = { fillStyleName: styleName };
+    }
+  } else {
+    throw new Error("styleId or styleName is required.");
+  }
+
+  await applyStyleRefs(node, refs);
+  figma.currentPage.selection = [node];
+  return { id: node.id, name: node.name, applied: refs };
+}
+
+const EXPORT_MIME_TYPES: Record<string, string> = {
+  PNG: "image/png",
+  JPG: "image/jpeg",
+  SVG: "image/svg+xml",
+  PDF: "application/pdf",
+};
+
+function exportConstraint(params: Record<string, unknown>): ExportSettingsConstraints {
+  const width = numberParam(params, "width");
+  if (width != null) return { type: "WIDTH", value: Math.max(1, width) };
+  const height = numberParam(params, "height");
+  if (height != null) return { type: "HEIGHT", value: Math.max(1, height) };
+  return { type: "SCALE", value: Math.min(4, Math.max(0.01, numberParam(params, "scale") ?? 1)) };
+}
+
+async function exportNode(params: Record<string, unknown>): Promise<unknown> {
+  const node = await resolveTargetNode(params);
+  const format = enumParam(params, "format", ["PNG", "JPG", "SVG", "PDF"] as const) ?? "PNG";
+  const contentsOnly = params.contentsOnly !== false;
+  const useAbsoluteBounds = params.useAbsoluteBounds === true;
+
+  let settings: ExportSettings;
+  if (format === "SVG") {
+    settings = { format, contentsOnly, useAbsoluteBounds, svgOutlineText: params.svgOutlineText !== false };
+  } else if (format === "PDF") {
+    settings = { format, contentsOnly, useAbsoluteBounds };
+  } else {
+    settings = { format, contentsOnly, useAbsoluteBounds, constraint: exportConstraint(params) };
+  }
+
+  const bytes = await node.exportAsync(settings);
+  return {
+    id: node.id,
+    name: node.name,
+    format,
+    mimeType: EXPORT_MIME_TYPES[format],
+    byteLength: bytes.length,
+    base64: figma.base64Encode(bytes),
+  };
+}
+
+const FIND_DEFAULT_LIMIT = 50;
+const FIND_MAX_LIMIT = 500;
+
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .split("")
+    .map((char) => {
+      if (char === "*") return ".*";
+      if (char === "?") return ".";
+      return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${pattern}$`, "i");
+}
+
+function regexParam(params: Record<string, unknown>, key: string): RegExp | null {
+  const source = stringParam(params, key);
+  if (!source) return null;
+  try {
+    return new RegExp(source, "i");
+  } catch (err) {
+    throw new Error(`${key} is not a valid regular expression: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+function colorsClose(a: RGB, b: RGB, tolerance: number): boolean {
+  return Math.abs(a.r - b.r) <= tolerance && Math.abs(a.g - b.g) <= tolerance && Math.abs(a.b - b.b) <= tolerance;
+}
+
+function hasSolidFill(node: SceneNode, color: RGB, tolerance: number): boolean {
+  if (!isFillableNode(node) || node.fills === figma.mixed) return false;
+  return node.fills.some((paint) => paint.type === "SOLID" && paint.visible !== false && colorsClose(paint.color, color, tolerance));
+}
+
+function pageOf(node: BaseNode): PageNode | null {
+  let current: BaseNode | null = node;
+  while (current && current.type !== "PAGE") current = current.parent;
+  return current as PageNode | null;
+}
+
+async function matchesComponentOrigin(node: SceneNode, componentId?: string, componentName?: string): Promise<boolean> {
+  if (node.type !== "INSTANCE") return false;
+  const main = await node.getMainComponentAsync();
+  if (!main) return false;
+  const set = main.parent && main.parent.type === "COMPONENT_SET" ? main.parent : null;
+  if (componentId && main.id !== componentId && (!set || set.id !== componentId)) return false;
+  if (componentName && main.name !== componentName && (!set || set.name !== componentName)) return false;
+  return true;
+}
+
+async function findNodes(params: Record<string, unknown>): Promise<unknown> {
+  const name = stringParam(params, "name");
+  const namePattern = name ? globToRegExp(name) : regexParam(params, "nameRegex");
+  const textQuery = stringParam(params, "text");
+  const textPattern = regexParam(params, "textRegex");
+  const types = Array.isArray(params.types)
+    ? params.types.filter((t): t is string => typeof t === "string").map((t) => t.toUpperCase())
+    : [];
+  const fillColor = params.fillColor != null ? requireColor(params.fillColor, "fillColor") : null;
+  const tolerance = numberParam(params, "colorTolerance") ?? 0.02;
+  const componentId = stringParam(params, "componentId");
+  const componentName = stringParam(params, "componentName");
+  const limit = clampInt(numberParam(params, "limit") ?? FIND_DEFAULT_LIMIT, 1, FIND_MAX_LIMIT);
+  const offset = Math.max(0, Math.round(numberParam(params, "offset") ?? 0));
+
+  const wantsText = textQuery != null || textPattern != null;
+  const wantsComponent = componentId != null || componentName != null;
+
+  let roots: ReadonlyArray<BaseNode & ChildrenMixin>;
+  const rootId = stringParam(params, "rootId");
+  if (rootId) {
+    roots = [await resolveParentNode(rootId)];
+  } else if (params.allPages === true) {
+    await figma.loadAllPagesAsync();
+    roots = figma.root.children;
+  } else {
+    roots = [figma.currentPage];
+  }
+
+  const matches = (node: SceneNode): boolean => {
+    if (types.length > 0 && !types.includes(node.type)) return false;
+    if (wantsComponent && node.type !== "INSTANCE") return false;
+    if (namePattern && !namePattern.test(node.name)) return false;
+    if (wantsText) {
+      if (node.type !== "TEXT") return false;
+      if (textQuery != null && !node.characters.toLowerCase().includes(textQuery.toLowerCase())) return false;
+      if (textPattern && !textPattern.test(node.characters)) return false;
+    }
+    if (fillColor && !hasSolidFill(node, fillColor, tolerance)) return false;
+    return true;
+  };
+
+  let candidates: SceneNode[] = [];
+  for (const root of roots) {
+    candidates = candidates.concat(root.findAll(matches));
+  }
+  if (wantsComponent) {
+    const filtered: SceneNode[] = [];
+    for (const node of candidates) {
+      if (await matchesComponentOrigin(node, componentId, componentName)) filtered.push(node);
+    }
+    candidates = filtered;
+  }
+
+  const page = candidates.slice(offset, offset + limit);
+  return {
+    total: candidates.length,
+    offset,
+    nextOffset: offset + limit < candidates.length ? offset + limit : null,
+    nodes: page.map((node) => {
+      const nodePage = pageOf(node);
+      return {
+        id: node.id,
+        name: node.name,
+        type: node.type,
+        pageId: nodePage ? nodePage.id : null,
+        pageName: nodePage ? nodePage.name : null,
+        parentId: node.parent ? node.parent.id : null,
+        x: round(node.x),
+        y: round(node.y),
+        width: round(node.width),
+        height: round(node.height),
+        characters: node.type === "TEXT" ? node.characters.slice(0, 120) : undefined,
+      };
+    }),
+  };
+}
+
+// Mirrors docs/design-tokens.md: Tailwind zinc and blue, plus the semantic colors the doc names.
+const COLOR_TOKENS: ReadonlyArray<{ name: string; hex: string }> = [
+  { name: "white", hex: "#ffffff" },
+  { name: "black", hex: "#000000" },
+  { name: "zinc-50", hex: "#fafafa" },
+  { name: "zinc-100", hex: "#f4f4f5" },
+  { name: "zinc-200", hex: "#e4e4e7" },
+  { name: "zinc-300", hex: "#d4d4d8" },
+  { name: "zinc-400", hex: "#a1a1aa" },
+  { name: "zinc-500", hex: "#71717a" },
+  { name: "zinc-600", hex: "#52525b" },
+  { name: "zinc-700", hex: "#3f3f46" },
+  { name: "zinc-800", hex: "#27272a" },
+  { name: "zinc-900", hex: "#18181b" },
+  { name: "zinc-950", hex: "#09090b" },
+  { name: "foreground", hex: "#0e0e1b" },
+  { name: "primary-foreground", hex: "#fafaff" },
+  { name: "blue-50", hex: "#eff6ff" },
+  { name: "blue-100", hex: "#dbeafe" },
+  { name: "blue-200", hex: "#bfdbfe" },
+  { name: "blue-300", hex: "#93c5fd" },
+  { name: "blue-400", hex: "#60a5fa" },
+  { name: "blue-500", hex: "#3b82f6" },
+  { name: "blue-600", hex: "#2563eb" },
+  { name: "blue-700", hex: "#1d4ed8" },
+  { name: "blue-800", hex: "#1e40af" },
+  { name: "blue-900", hex: "#1e3a8a" },
+  { name: "blue-950", hex: "#172554" },
+  { name: "destructive", hex: "#ef4444" },
+];
+
+const FONT_SIZE_TOKENS = TYPE_SCALE.map((entry) => entry.fontSize);
+const RADIUS_TOKENS = [0, 4, 6, 8, 12, 16, 9999];
+const GAP_TOKENS = [0, 8, 12, 16, 24];
+const PADDING_TOKENS = [0, 8, 16, 24, 32];
+const AUDIT_CHECKS = ["fills", "fontSize", "cornerRadius", "spacing", "padding"] as const;
+const AUDIT_DEFAULT_NODES = 2000;
+const AUDIT_MAX_NODES = 10000;
+const AUDIT_DEFAULT_LIMIT = 200;
+
+type AuditCheck = (typeof AUDIT_CHECKS)[number];
+
+interface AuditState {
+  checks: ReadonlySet<AuditCheck>;
+  fix: boolean;
+  tolerance: number;
+  remaining: number;
+  visited: number;
+  truncated: boolean;
+  violations: Array<Record<string, unknown>>;
+}
+
+function colorHex(color: RGB): string {
+  const channel = (value: number) => Math.round(clamp01(value) * 255).toString(16).padStart(2, "0");
+  return `#${channel(color.r)}${channel(color.g)}${channel(color.b)}`;
+}
+
+function nearestColorToken(color: RGB): { name: string; hex: string; color: RGB; distance: number } {
+  let best: { name: string; hex: string; color: RGB; distance: number } | null = null;
+  for (const token of COLOR_TOKENS) {
+    const { r, g, b } = parseColor(token.hex)!;
+    const distance = Math.max(Math.abs(color.r - r), Math.abs(color.g - g), Math.abs(color.b - b));
+    if (!best || distance < best.distance) best = { ...token, color: { r, g, b }, distance };
+  }
+  return best!;
+}
+
+function nearestToken(value: number, tokens: readonly number[]): number {
+  return tokens.reduce((best, token) => (Math.abs(token - value) < Math.abs(best - value) ? token : best), tokens[0]);
+}
+
+function isBoundField(node: SceneNode, field: string): boolean {
+  const bound = "boundVariables" in node ? (node.boundVariables as Record<string, unknown> | undefined) : undefined;
+  return bound != null && bound[field] != null;
+}
+
+function reportViolation(
+  state: AuditState,
+  node: SceneNode,
+  check: AuditCheck,
+  property: string,
+  value: unknown,
+  suggestion: unknown,
+  token: string
+): Record<string, unknown> {
+  const violation: Record<string, unknown> = { nodeId: node.id, nodeName: node.name, check, property, value, suggestion, token };
+  state.violations.push(violation);
+  return violation;
+}
+
+function auditFills(node: SceneNode, state: AuditState): void {
+  if (!isFillableNode(node) || node.fills === figma.mixed) return;
+  if ("fillStyleId" in node && typeof node.fillStyleId === "string" && node.fillStyleId) return;
+
+  const fills = node.fills.slice();
+  let changed = false;
+  const violations: Array<Record<string, unknown>> = [];
+  fills.forEach((paint, index) => {
+    if (paint.type !== "SOLID" || paint.visible === false || paint.boundVariables?.color) return;
+    const nearest = nearestColorToken(paint.color);
+    if (nearest.distance <= state.tolerance) return;
+    violations.push(reportViolation(state, node, "fills", `fills[${index}]`, colorHex(paint.color), nearest.hex, nearest.name));
+    if (state.fix) {
+      fills[index] = { ...paint, color: nearest.color };
+      changed = true;
+    }
+  });
+  if (changed) {
+    trackChanged(node);
+    node.fills = fills;
+    for (const violation of violations) violation.fixed = true;
+  }
+}
+
+async function auditFontSize(node: TextNode, state: AuditState): Promise<void> {
+  if (node.textStyleId !== "" || isBoundField(node, "fontSize")) return;
+  const segments = node.fontSize === figma.mixed
+    ? node.getStyledTextSegments(["fontSize"])
+    : [{ start: 0, end: node.characters.length, fontSize: node.fontSize }];
+
+  const offSystem = segments.filter((segment) => !FONT_SIZE_TOKENS.includes(segment.fontSize));
+  if (offSystem.length === 0) return;
+  if (state.fix) {
+    trackChanged(node);
+    await loadTextNodeFonts(node);
+  }
+  for (const segment of offSystem) {
+    const suggestion = nearestToken(segment.fontSize, FONT_SIZE_TOKENS);
+    const entry = TYPE_SCALE.find((scale) => scale.fontSize === suggestion)!;
+    const property = segments.length > 1 ? `fontSize[${segment.start}:${segment.end}]` : "fontSize";
+    const violation = reportViolation(state, node, "fontSize", property, segment.fontSize, suggestion, entry.name);
+    if (!state.fix) continue;
+    if (segments.length > 1) node.setRangeFontSize(segment.start, segment.end, suggestion);
+    else node.fontSize = suggestion;
+    violation.fixed = true;
+  }
+}
+
+function auditCornerRadius(node: SceneNode, state: AuditState): void {
+  if (!isCornerRadiusNode(node) || !("width" in node)) return;
+  // Anything at or past half the short side already renders as a pill.
+  const pill = Math.min(node.width, node.height) / 2;
+  const radius = node.cornerRadius as number | PluginAPI["mixed"];
+  const corners = radius === figma.mixed && "topLeftRadius" in node
+    ? (["topLeftRadius", "topRightRadius", "bottomLeftRadius", "bottomRightRadius"] as const)
+    : (["cornerRadius"] as const);
+
+  for (const corner of corners) {
+    if (isBoundField(node, corner === "cornerRadius" ? "topLeftRadius" : corner)) continue;
+    const value = (node as unknown as Record<string, number>)[corner];
+    if (typeof value !== "number" || RADIUS_TOKENS.includes(value) || (pill > 0 && value >= pill)) continue;
+    const suggestion = nearestToken(value, RADIUS_TOKENS);
+    const violation = reportViolation(state, node, "cornerRadius", corner, value, suggestion, `radius-${suggestion}`);
+    if (state.fix) {
+      trackChanged(node);
+      (node as unknown as Record<string, number>)[corner] = suggestion;
+      violation.fixed = true;
+    }
+  }
+}
+
+function auditAutoLayoutValue(
+  node: AutoLayoutNode,
+  state: AuditState,
+  check: "spacing" | "padding",
+  field: "itemSpacing" | "counterAxisSpacing" | "paddingTop" | "paddingRight" | "paddingBottom" | "paddingLeft",
+  tokens: readonly number[]
+): void {
+  const value = node[field];
+  if (typeof value !== "number" || tokens.includes(value) || isBoundField(node, field)) return;
+  const suggestion = nearestToken(value, tokens);
+  const violation = reportViolation(state, node, check, field, value, suggestion, `${check}-${suggestion}`);
+  if (state.fix) {
+    trackChanged(node);
+    node[field] = suggestion;
+    violation.fixed = true;
+  }
+}
+
+async function auditNode(node: SceneNode, state: AuditState): Promise<void> {
+  if (state.remaining <= 0) {
+    state.truncated = true;
+    return;
+  }
+  state.remaining -= 1;
+  state.visited += 1;
+
+  if (state.checks.has("fills")) auditFills(node, state);
+  if (state.checks.has("fontSize") && node.type === "TEXT") await auditFontSize(node, state);
+  if (state.checks.has("cornerRadius")) auditCornerRadius(node, state);
+  if (isAutoLayoutNode(node) && node.layoutMode !== "NONE") {
+    if (state.checks.has("spacing")) {
+      if (node.primaryAxisAlignItems !== "SPACE_BETWEEN") auditAutoLayoutValue(node, state, "spacing", "itemSpacing", GAP_TOKENS);
+      if (node.layoutWrap === "WRAP") auditAutoLayoutValue(node, state, "spacing", "counterAxisSpacing", GAP_TOKENS);
+    }
+    if (state.checks.has("padding")) {
+      for (const field of ["paddingTop", "paddingRight", "paddingBottom", "paddingLeft"] as const) {
+        auditAutoLayoutValue(node, state, "padding", field, PADDING_TOKENS);
+      }
+    }
+  }
+
+  // Instance internals belong to their main component; audit that instead.
+  if ("children" in node && node.type !== "INSTANCE") {
+    for (const child of node.children) await auditNode(child, state);
+  }
+}
+
+async function auditDesign(params: Record<string, unknown>): Promise<unknown> {
+  const requested = Array.isArray(params.checks)
+    ? params.checks.filter((check): check is AuditCheck => (AUDIT_CHECKS as readonly unknown[]).includes(check))
+    : [];
+  const state: AuditState = {
+    checks: new Set(requested.length > 0 ? requested : AUDIT_CHECKS),
+    fix: params.fix === true,
+    tolerance: Math.max(0, numberParam(params, "colorTolerance") ?? 0.01),
+    remaining: clampInt(numberParam(params, "maxNodes") ?? AUDIT_DEFAULT_NODES, 1, AUDIT_MAX_NODES),
+    visited: 0,
+    truncated: false,
+    violations: [],
+  };
+
+  const roots: ReadonlyArray<SceneNode> = stringParam(params, "nodeId") || figma.currentPage.selection.length > 0
+    ? [await resolveTargetNode(params)]
+    : figma.currentPage.children;
+  for (const root of roots) await auditNode(root, state);
+
+  const byCheck: Record<string, number> = {};
+  for (const violation of state.violations) {
+    const check = violation.check as string;
+    byCheck[check] = (byCheck[check] ?? 0) + 1;
+  }
+  const limit = clampInt(numberParam(params, "limit") ?? AUDIT_DEFAULT_LIMIT, 1, AUDIT_MAX_NODES);
+  return {
+    rootIds: roots.map((root) => root.id),
+    nodesChecked: state.visited,
+    truncated: state.truncated,
+    fixed: state.fix,
+    violationCount: state.violations.length,
+    byCheck,
+    violations: state.violations.slice(0, limit),
+  };
+}
+
+const MIN_TOUCH_TARGET = 44;
+const MIN_BODY_TEXT_SIZE = 12;
+const A11Y_ANNOTATION_KEY = "a11yAnnotation";
+const INTERACTIVE_NAME_PATTERN =
+  /\b(button|btn|link|cta|toggle|switch|checkbox|radio|tab|chip|input|select|dropdown|menu ?item|icon ?button|close|toolbar item)\b/i;
+
+interface A11yState {
+  level: "aa" | "aaa";
+  remaining: number;
+  visited: number;
+  truncated: boolean;
+  results: Array<Record<string, unknown>>;
+  failing: Array<{ node: SceneNode; issues: string[] }>;
+}
+
+function relativeLuminance(color: RGB): number {
+  const linear = (value: number) => (value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4));
+  return 0.2126 * linear(color.r) + 0.7152 * linear(color.g) + 0.0722 * linear(color.b);
+}
+
+function contrastRatio(a: RGB, b: RGB): number {
+  const [light, dark] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+}
+
+function blendOver(top: RGB, alpha: number, bottom: RGB): RGB {
+  return {
+    r: top.r * alpha + bottom.r * (1 - alpha),
+    g: top.g * alpha + bottom.g * (1 - alpha),
+    b: top.b * alpha + bottom.b * (1 - alpha),
+  };
+}
+
+// Gradients count as their average stop; images cannot be sampled, so the result is flagged as uncertain.
+function paintApproximation(paint: Paint): { color: RGB; alpha: number } | null {
+  const opacity = paint.opacity ?? 1;
+  if (paint.type === "SOLID") return { color: paint.color, alpha: opacity };
+  if ("gradientStops" in paint && paint.gradientStops.length > 0) {
+    const stops = paint.gradientStops;
+    const average = (key: "r" | "g" | "b" | "a") => stops.reduce((sum, stop) => sum + stop.color[key], 0) / stops.length;
+    return { color: { r: average("r"), g: average("g"), b: average("b") }, alpha: average("a") * opacity };
+  }
+  return null;
+}
+
+function compositePaints(paints: ReadonlyArray<Paint>, nodeOpacity: number, base: RGB): { color: RGB; uncertain: boolean } {
+  let color = base;
+  let uncertain = false;
+  for (const paint of paints) {
+    if (paint.visible === false) continue;
+    const approx = paintApproximation(paint);
+    if (!approx) {
+      uncertain = true;
+      continue;
+    }
+    if (paint.type !== "SOLID") uncertain = true;
+    color = blendOver(approx.color, approx.alpha * nodeOpacity, color);
+  }
+  return { color, uncertain };
+}
+
+// Effective backdrop: the page background with every ancestor's fills layered on top, outermost first.
+function effectiveBackground(node: SceneNode): { color: RGB; uncertain: boolean } {
+  const chain: SceneNode[] = [];
+  let page: PageNode | null = null;
+  for (let current = node.parent; current; current = current.parent) {
+    if (current.type === "PAGE") {
+      page = current;
+      break;
+    }
+    if (isSceneNode(current)) chain.unshift(current);
+  }
+
+  let result = compositePaints(page ? page.backgrounds : [], 1, { r: 1, g: 1, b: 1 });
+  for (const ancestor of chain) {
+    if (!isFillableNode(ancestor) || ancestor.fills === figma.mixed) continue;
+    const opacity = "opacity" in ancestor ? ancestor.opacity : 1;
+    const next = compositePaints(ancestor.fills, opacity, result.color);
+    result = { color: next.color, uncertain: result.uncertain || next.uncertain };
+  }
+  return result;
+}
+
+function isLargeText(fontSize: number, fontWeight: number): boolean {
+  // WCAG large text: 18pt (24px) regular, or 14pt (~18.66px) bold.
+  return fontSize >= 24 || (fontSize >= 18.66 && fontWeight >= 700);
+}
+
+function auditTextAccessibility(node: TextNode, state: A11yState): void {
+  if (node.characters.trim().length === 0) return;
+  const background = effectiveBackground(node);
+  const segments = node.getStyledTextSegments(["fills", "fontSize", "fontWeight"]);
+
+  let worst: Record<string, unknown> | null = null;
+  let smallest = Infinity;
+  let uncertain = background.uncertain;
+  for (const segment of segments) {
+    smallest = Math.min(smallest, segment.fontSize);
+    const fill = compositePaints(segment.fills, node.opacity, background.color);
+    if (!segment.fills.some((paint) => paint.visible !== false)) continue;
+    uncertain = uncertain || fill.uncertain;
+    const ratio = contrastRatio(fill.color, background.color);
+    const large = isLargeText(segment.fontSize, segment.fontWeight);
+    if (!worst || ratio < (worst.ratio as number)) {
+      worst = {
+        ratio: round(ratio, 2),
+        foreground: colorHex(fill.color),
+        fontSize: segment.fontSize,
+        largeText: large,
+        aa: ratio >= (large ? 3 : 4.5) ? "pass" : "fail",
+        aaa: ratio >= (large ? 4.5 : 7) ? "pass" : "fail",
+      };
+    }
+  }
+  if (!worst) return;
+
+  const textSize = smallest >= MIN_BODY_TEXT_SIZE ? "pass" : "fail";
+  state.results.push({
+    nodeId: node.id,
+    nodeName: node.name,
+    check: "text",
+    ...worst,
+    background: colorHex(background.color),
+    uncertain: uncertain || undefined,
+    minFontSize: smallest,
+    textSize,
+  });
+
+  const issues: string[] = [];
+  if (worst[state.level] === "fail") issues.push(`Contrast ${worst.ratio}:1 fails ${state.level.toUpperCase()}`);
+  if (textSize === "fail") issues.push(`Text ${smallest}px < ${MIN_BODY_TEXT_SIZE}px`);
+  if (issues.length > 0) state.failing.push({ node, issues });
+}
+
+async function looksInteractive(node: SceneNode): Promise<boolean> {
+  if ("reactions" in node && node.reactions.length > 0) return true;
+  if (node.type !== "INSTANCE" && node.type !== "COMPONENT" && node.type !== "FRAME") return false;
+  const names = [node.name];
+  if (node.type === "INSTANCE") {
+    const main = await node.getMainComponentAsync();
+    if (main) {
+      names.push(main.name);
+      if (main.parent && main.parent.type === "COMPONENT_SET") names.push(main.parent.name);
+    }
+  }
+  return names.some((name) => INTERACTIVE_NAME_PATTERN.test(name));
+}
+
+async function auditAccessibilityNode(node: SceneNode, state: A11yState): Promise<void> {
+  if (!node.visible || node.getSharedPluginData(PROVENANCE_NAMESPACE, A11Y_ANNOTATION_KEY)) return;
+  if (state.remaining <= 0) {
+    state.truncated = true;
+    return;
+  }
+  state.remaining -= 1;
+  state.visited += 1;
+
+  if (node.type === "TEXT") {
+    auditTextAccessibility(node, state);
+    return;
+  }
+
+  if (await looksInteractive(node)) {
+    const width = round(node.width);
+    const height = round(node.height);
+    const target = width >= MIN_TOUCH_TARGET && height >= MIN_TOUCH_TARGET ? "pass" : "fail";
+    state.results.push({ nodeId: node.id, nodeName: node.name, check: "touchTarget", width, height, target });
+    if (target === "fail") {
+      state.failing.push({ node, issues: [`Target ${width}×${height} < ${MIN_TOUCH_TARGET}×${MIN_TOUCH_TARGET}`] });
+    }
+  }
+
+  if ("children" in node) {
+    for (const child of node.children) await auditAccessibilityNode(child, state);
+  }
+}
+
+// One top-level frame per page holds the outlines and labels; rerunning the audit replaces it.
+async function drawAccessibilityAnnotations(page: PageNode, failing: A11yState["failing"]): Promise<FrameNode | null> {
+  for (const child of page.children) {
+    if (child.getSharedPluginData(PROVENANCE_NAMESPACE, A11Y_ANNOTATION_KEY)) child.remove();
+  }
+  if (failing.length === 0) return null;
+
+  const font = await loadFontWithFallback("Inter", "Medium");
+  const red: RGB = { r: 0.937, g: 0.267, b: 0.267 };
+  const layer = figma.createFrame();
+  layer.name = "Accessibility audit";
+  layer.fills = [];
+  layer.clipsContent = false;
+  layer.resize(1, 1);
+  layer.x = 0;
+  layer.y = 0;
+  layer.setSharedPluginData(PROVENANCE_NAMESPACE, A11Y_ANNOTATION_KEY, "1");
+  page.appendChild(layer);
+
+  for (const { node, issues } of failing) {
+    const box = node.absoluteBoundingBox;
+    if (!box) continue;
+    const outline = figma.createRectangle();
+    outline.name = `Issue: ${node.name}`;
+    outline.resize(Math.max(1, box.width), Math.max(1, box.height));
+    outline.x = box.x;
+    outline.y = box.y;
+    outline.fills = [];
+    outline.strokes = [{ type: "SOLID", color: red }];
+    outline.strokeWeight = 2;
+    outline.strokeAlign = "OUTSIDE";
+    layer.appendChild(outline);
+
+    const label = figma.createText();
+    label.fontName = font;
+    label.fontSize = 10;
+    label.characters = issues.join(" · ");
+    label.fills = [{ type: "SOLID", color: red }];
+    label.x = box.x;
+    label.y = box.y - label.height - 4;
+    layer.appendChild(label);
+  }
+  layer.locked = true;
+  trackCreated(layer);
+  return layer;
+}
+
+async function auditAccessibility(params: Record<string, unknown>): Promise<unknown> {
+  const state: A11yState = {
+    level: params.level === "AAA" ? "aaa" : "aa",
+    remaining: clampInt(numberParam(params, "maxNodes") ?? AUDIT_DEFAULT_NODES, 1, AUDIT_MAX_NODES),
+    visited: 0,
+    truncated: false,
+    results: [],
+    failing: [],
+  };
+
+  const roots: ReadonlyArray<SceneNode> = stringParam(params, "nodeId") || figma.currentPage.selection.length > 0
+    ? [await resolveTargetNode(params)]
+    : figma.currentPage.children;
+  for (const root of roots) await auditAccessibilityNode(root, state);
+
+  const texts = state.results.filter((result) => result.check === "text");
+  const targets = state.results.filter((result) => result.check === "touchTarget");
+  const summary = {
+    textNodes: texts.length,
+    aaFailures: texts.filter((result) => result.aa === "fail").length,
+    aaaFailures: texts.filter((result) => result.aaa === "fail").length,
+    smallText: texts.filter((result) => result.textSize === "fail").length,
+    touchTargets: targets.length,
+    smallTargets: targets.filter((result) => result.target === "fail").length,
+  };
+
+  let annotationLayerId: string | null = null;
+  if (params.annotate === true) {
+    const page = roots.length > 0 ? pageOf(roots[0]) : figma.currentPage;
+    const layer = await drawAccessibilityAnnotations(page ?? figma.currentPage, state.failing);
+    annotationLayerId = layer ? layer.id : null;
+  }
+
+  const results = params.failuresOnly === true
+    ? state.results.filter((result) => result[state.level] === "fail" || result.textSize === "fail" || result.target === "fail")
+    : state.results;
+  const limit = clampInt(numberParam(params, "limit") ?? AUDIT_DEFAULT_LIMIT, 1, AUDIT_MAX_NODES);
+  return {
+    rootIds: roots.map((root) => root.id),
+    nodesChecked: state.visited,
+    truncated: state.truncated,
+    summary,
+    annotationLayerId,
+    results: results.slice(0, limit),
+  };
+}
+
+async function resolvePage(params: Record<string, unknown>): Promise<PageNode> {
+  const pageId = stringParam(params, "pageId");
+  const pageName = stringParam(params, "pageName");
+  if (!pageId && !pageName) return figma.currentPage;
+
+  const page = pageId
+    ? await figma.getNodeByIdAsync(pageId)
+    : figma.root.children.find((candidate) => candidate.name === pageName) ?? null;
+  if (!page || page.type !== "PAGE") throw new Error(`Page not found: ${pageId ?? pageName}`);
+  await page.loadAsync();
+  return page;
+}
+
+function pageSummary(page: PageNode): Record<string, unknown> {
+  return {
+    id: page.id,
+    name: page.name,
+    current: page.id === figma.currentPage.id,
+  };
+}
+
+// Only reads id and name, which are available without loading each page.
+function listPages(): unknown {
+  return { pages: figma.root.children.map(pageSummary) };
+}
+
+async function createPage(params: Record<string, unknown>): Promise<unknown> {
+  const name = stringParam(params, "name");
+  if (!name) throw new Error("name is required.");
+  const page = figma.createPage();
+  try {
+    page.name = name;
+    const index = numberParam(params, "index");
+    if (index != null) figma.root.insertChild(clampInt(index, 0, figma.root.children.length - 1), page);
+    if (params.switchTo === true) await figma.setCurrentPageAsync(page);
+  } catch (err) {
+    page.remove();
+    throw err;
+  }
+  trackCreatedAsset(page);
+  return pageSummary(page);
+}
+
+const TRIGGER_TYPES = [
+  "ON_CLICK", "ON_HOVER", "ON_PRESS", "ON_DRAG", "AFTER_TIMEOUT", "MOUSE_ENTER", "MOUSE_LEAVE", "MOUSE_UP", "MOUSE_DOWN",
+] as const;
+const REACTION_ACTIONS = ["NAVIGATE", "OVERLAY", "SWAP", "SCROLL_TO", "CHANGE_TO", "BACK", "CLOSE", "URL"] as const;
+const SIMPLE_TRANSITIONS = ["DISSOLVE", "SMART_ANIMATE", "SCROLL_ANIMATE"] as const;
+const DIRECTIONAL_TRANSITIONS = ["MOVE_IN", "MOVE_OUT", "PUSH", "SLIDE_IN", "SLIDE_OUT"] as const;
+const EASING_TYPES = [
+  "EASE_IN", "EASE_OUT", "EASE_IN_AND_OUT", "LINEAR", "EASE_IN_BACK", "EASE_OUT_BACK", "EASE_IN_AND_OUT_BACK",
+  "GENTLE", "QUICK", "BOUNCY", "SLOW",
+] as const;
+
+type ReactiveNode = SceneNode & ReactionMixin;
+
+function isReactiveNode(node: BaseNode | null): node is ReactiveNode {
+  return node != null && "setReactionsAsync" in node;
+}
+
+function buildTrigger(params: Record<string, unknown>): Trigger {
+  const type = enumParam(params, "trigger", TRIGGER_TYPES) ?? "ON_CLICK";
+  if (type === "AFTER_TIMEOUT") return { type, timeout: Math.max(0, numberParam(params, "timeout") ?? 0.8) };
+  if (type === "MOUSE_ENTER" || type === "MOUSE_LEAVE") {
+    return { type, delay: Math.max(0, numberParam(params, "delay") ?? 0), deprecatedVersion: false };
+  }
+  if (type === "MOUSE_UP" || type === "MOUSE_DOWN") return { type, delay: Math.max(0, numberParam(params, "delay") ?? 0) };
+  return { type };
+}
+
+function buildEasing(params: Record<string, unknown>): Easing {
+  const bezier = Array.isArray(params.bezier) ? params.bezier : null;
+  if (bezier) {
+    if (bezier.length !== 4 || !bezier.every((value) => typeof value === "number")) {
+      throw new Error("bezier must be [x1, y1, x2, y2].");
+    }
+    const [x1, y1, x2, y2] = bezier as number[];
+    return { type: "CUSTOM_CUBIC_BEZIER", easingFunctionCubicBezier: { x1, y1, x2, y2 } };
+  }
+  return { type: enumParam(params, "easing", EASING_TYPES) ?? "EASE_OUT" };
+}
+
+// Durations are seconds, as the plugin API stores them.
+function buildTransition(params: Record<string, unknown>): Transition | null {
+  const easing = buildEasing(params);
+  const duration = Math.max(0.01, numberParam(params, "duration") ?? 0.3);
+  const simple = enumParam(params, "transition", SIMPLE_TRANSITIONS);
+  if (simple) return { type: simple, easing, duration };
+  const directional = enumParam(params, "transition", DIRECTIONAL_TRANSITIONS);
+  if (directional) {
+    const direction = enumParam(params, "direction", ["LEFT", "RIGHT", "TOP", "BOTTOM"] as const) ?? "LEFT";
+    return { type: directional, direction, matchLayers: params.matchLayers === true, easing, duration };
+  }
+  if (params.transition != null && params.transition !== "INSTANT") {
+    throw new Error(`Unknown transition: ${String(params.transition)}`);
+  }
+  return null;
+}
+
+// Prototype links only work within one page, so the destination must share the source node's page.
+async function resolveDestination(
+  params: Record<string, unknown>,
+  navigation: Navigation,
+  source: SceneNode
+): Promise<SceneNode> {
+  const destinationId = stringParam(params, "destinationId");
+  if (!destinationId) throw new Error(`${navigation} needs destinationId.`);
+  const destination = await figma.getNodeByIdAsync(destinationId);
+  if (!isSceneNode(destination)) throw new Error(`Destination not found: ${destinationId}`);
+  if ((navigation === "NAVIGATE" || navigation === "OVERLAY") && (destination.type !== "FRAME" || destination.parent?.type !== "PAGE")) {
+    throw new Error(`${navigation} destination must be a top-level frame.`);
+  }
+  if (pageOf(destination)?.id !== pageOf(source)?.id) {
+    throw new Error(`${navigation} destination ${destination.name} is on another page than ${source.name}.`);
+  }
+  return destination;
+}
+
+async function buildAction(params: Record<string, unknown>, source: SceneNode): Promise<Action> {
+  const type = enumParam(params, "action", REACTION_ACTIONS) ?? "NAVIGATE";
+  if (type === "BACK" || type === "CLOSE") return { type };
+  if (type === "URL") {
+    const url = stringParam(params, "url");
+    if (!url) throw new Error("URL action needs url.");
+    return { type, url, openInNewTab: params.openInNewTab !== false };
+  }
+  const destination = await resolveDestination(params, type, source);
+  return {
+    type: "NODE",
+    destinationId: destination.id,
+    navigation: type,
+    transition: buildTransition(params),
+    resetScrollPosition: params.resetScrollPosition === true,
+  };
+}
+
+async function resolveReactiveNode(params: Record<string, unknown>): Promise<ReactiveNode> {
+  const node = await resolveTargetNode(params);
+  if (!isReactiveNode(node)) throw new Error("Target node does not support prototype reactions.");
+  return node;
+}
+
+function reactionSummary(node: ReactiveNode): Record<string, unknown> {
+  return { id: node.id, name: node.name, reactions: node.reactions };
+}
+
+async function addReaction(params: Record<string, unknown>): Promise<unknown> {
+  const node = await resolveReactiveNode(params);
+  const reaction: Reaction = { trigger: buildTrigger(params), actions: [await buildAction(params, node)] };
+  const existing = params.replace === true ? [] : node.reactions.slice();
+  await node.setReactionsAsync([...existing, reaction]);
+  return reactionSummary(node);
+}
+
+async function clearReactions(params: Record<string, unknown>): Promise<unknown> {
+  const node = await resolveReactiveNode(params);
+  const trigger = enumParam(params, "trigger", TRIGGER_TYPES);
+  const kept = trigger ? node.reactions.filter((reaction) => reaction.trigger?.type !== trigger) : [];
+  await node.setReactionsAsync(kept.slice());
+  return reactionSummary(node);
+}
+
+async function topLevelFrame(id: string): Promise<FrameNode> {
+  const node = await figma.getNodeByIdAsync(id);
+  if (!node || node.type !== "FRAME" || node.parent?.type !== "PAGE") {
+    throw new Error(`Not a top-level frame: ${id}`);
+  }
+  return node;
+}
+
+function setFlowStart(frame: FrameNode, name: string | undefined, remove: boolean): PageNode {
+  const page = frame.parent as PageNode;
+  trackPageChanged(page);
+  const others = page.flowStartingPoints.filter((point) => point.nodeId !== frame.id);
+  page.flowStartingPoints = remove ? others : [...others, { nodeId: frame.id, name: name ?? frame.name }];
+  return page;
+}
+
+async function setFlowStartingPoint(params: Record<string, unknown>): Promise<unknown> {
+  const nodeId = stringParam(params, "nodeId");
+  if (!nodeId) throw new Error("nodeId is required.");
+  const page = setFlowStart(await topLevelFrame(nodeId), stringParam(params, "name"), params.remove === true);
+  return { pageId: page.id, flowStartingPoints: page.flowStartingPoints };
+}
+
+async function setScrollBehavior(params: Record<string, unknown>): Promise<unknown> {
+  const node = await resolveTargetNode(params);
+  if (node.type !== "FRAME" && node.type !== "COMPONENT" && node.type !== "INSTANCE") {
+    throw new Error("Target node must be a frame, component or instance.");
+  }
+  const overflow = enumParam(params, "overflowDirection", ["NONE", "HORIZONTAL", "VERTICAL", "BOTH"] as const);
+  if (overflow) node.overflowDirection = overflow;
+  const fixed = numberParam(params, "numberOfFixedChildren");
+  if (fixed != null) node.numberOfFixedChildren = clampInt(fixed, 0, node.children.length);
+  if (typeof params.clipsContent === "boolean") node.clipsContent = params.clipsContent;
+  return {
+    id: node.id,
+    name: node.name,
+    overflowDirection: node.overflowDirection,
+    numberOfFixedChildren: node.numberOfFixedChildren,
+    clipsContent: node.clipsContent,
+  };
+}
+
+// Wires screens in order: each screen's hotspot (or the whole screen) navigates to the next one.
+async function createFlow(params: Record<string, unknown>): Promise<unknown> {
+  const screens = Array.isArray(params.screens) ? params.screens : [];
+  if (screens.length < 2) throw new Error("screens needs at least two { frameId, hotspotId? } entries.");
+
+  const frames: FrameNode[] = [];
+  const hotspots: ReactiveNode[] = [];
+  for (const [index, entry] of screens.entries()) {
+    const screen = (entry ?? {}) as Record<string, unknown>;
+    const frameId = stringParam(screen, "frameId");
+    if (!frameId) throw new Error(`screens[${index}].frameId is required.`);
+    const frame = await topLevelFrame(frameId);
+    if (frames.length > 0 && frame.parent?.id !== frames[0].parent?.id) {
+      throw new Error(`screens[${index}].frameId is on another page; a flow must stay on one page.`);
+    }
+    frames.push(frame);
+    const hotspotId = stringParam(screen, "hotspotId");
+    const hotspot = hotspotId ? await figma.getNodeByIdAsync(hotspotId) : frame;
+    if (!isReactiveNode(hotspot)) throw new Error(`screens[${index}].hotspotId cannot take reactions.`);
+    if (pageOf(hotspot)?.id !== frame.parent?.id) throw new Error(`screens[${index}].hotspotId is on another page than its frame.`);
+    hotspots.push(hotspot);
+  }
+
+  const links: Array<Record<string, unknown>> = [];
+  for (let i = 0; i < frames.length - 1; i += 1) {
+    const hotspot = hotspots[i];
+    trackChanged(hotspot);
+    const reaction: Reaction = {
+      trigger: buildTrigger(params),
+      actions: [{
+        type: "NODE",
+        destinationId: frames[i + 1].id,
+        navigation: "NAVIGATE",
+        transition: buildTransition(params),
+      }],
+    };
+    await hotspot.setReactionsAsync([...(params.replace === true ? [] : hotspot.reactions), reaction]);
+    links.push({ from: hotspot.id, to: frames[i + 1].id });
+  }
+
+  const page = setFlowStart(frames[0], stringParam(params, "name"), false);
+  return { startNodeId: frames[0].id, links, flowStartingPoints: page.flowStartingPoints };
+}
+
+// Tools that only exist in one editor; everything else works in both.
+const FIGJAM_ONLY_TOOLS = new Set(["create_sticky", "create_connector", "create_shape_with_text", "create_table"]);
+const DESIGN_ONLY_TOOLS = new Set([
+  "create_frame", "create_component", "create_instance", "create_from_spec", "combine_as_variants",
+  "add_component_property", "set_instance_properties", "set_auto_layout", "set_layout_child",
+  "create_variable_collection", "create_variable", "list_variables", "bind_variable", "set_variable_mode",
+  "list_styles", "create_paint_style", "create_text_style", "create_type_scale_styles", "apply_style",
+  "add_reaction", "clear_reactions", "create_flow", "set_flow_starting_point", "set_scroll_behavior",
+]);
+const UNAVAILABLE_TOOLS = figma.editorType === "figjam" ? DESIGN_ONLY_TOOLS : FIGJAM_ONLY_TOOLS;
+
+// The UI passes this on to the server, which hides the unavailable tools from its clients.
+figma.ui.postMessage({ type: "editor", editorType: figma.editorType, unavailableTools: [...UNAVAILABLE_TOOLS] });
+
+const STICKY_COLORS: Record<string, string> = {
+  gray: "#e6e6e6",
+  white: "#ffffff",
+  yellow: "#ffe299",
+  orange: "#ffc28a",
+  red: "#ffafa3",
+  pink: "#ffbde6",
+  violet: "#d9b8ff",
+  blue: "#a8daff",
+  teal: "#a8f0e6",
+  green: "#b3efbd",
+};
+
+const SHAPE_TYPES = [
+  "SQUARE", "ELLIPSE", "ROUNDED_RECTANGLE", "DIAMOND", "TRIANGLE_UP", "TRIANGLE_DOWN", "PARALLELOGRAM_RIGHT",
+  "PARALLELOGRAM_LEFT", "ENG_DATABASE", "ENG_QUEUE", "ENG_FILE", "ENG_FOLDER", "TRAPEZOID", "PREDEFINED_PROCESS",
+  "SHIELD", "DOCUMENT_SINGLE", "DOCUMENT_MULTIPLE", "MANUAL_INPUT", "HEXAGON", "CHEVRON", "PENTAGON", "OCTAGON",
+  "STAR", "PLUS", "ARROW_LEFT", "ARROW_RIGHT", "SUMMING_JUNCTION", "OR", "SPEECH_BUBBLE", "INTERNAL_STORAGE",
+] as const;
+
+const CONNECTOR_CAPS = [
+  "NONE", "ARROW_EQUILATERAL", "ARROW_LINES", "TRIANGLE_FILLED", "DIAMOND_FILLED", "CIRCLE_FILLED",
+] as const;
+
+function assertToolAvailable(tool: string): void {
+  if (!UNAVAILABLE_TOOLS.has(tool)) return;
+  throw new Error(figma.editorType === "figjam" ? `${tool} is not available in FigJam.` : `${tool} is only available in FigJam.`);
+}
+
+function boardColorParam(params: Record<string, unknown>, key: string, named: Record<string, string>): RGB | null {
+  const value = params[key];
+  if (value == null) return null;
+  const preset = typeof value === "string" ? named[value.toLowerCase()] : undefined;
+  const { r, g, b } = requireColor(preset ?? value, key);
+  return { r, g, b };
+}
+
+async function setSublayerText(sublayer: TextSublayerNode, text: string | undefined): Promise<void> {
+  if (text == null) return;
+  const fontName = sublayer.fontName === figma.mixed ? { family: "Inter", style: "Medium" } : sublayer.fontName;
+  await figma.loadFontAsync(fontName);
+  sublayer.characters = text;
+}
+
+async function buildSticky(params: Record<string, unknown>): Promise<StickyNode> {
+  const sticky = figma.createSticky();
+  try {
+    await setSublayerText(sticky.text, stringParam(params, "text"));
+    const color = boardColorParam(params, "color", STICKY_COLORS);
+    if (color) sticky.fills = [{ type: "SOLID", color }];
+    if (typeof params.wide === "boolean") sticky.isWideWidth = params.wide;
+    if (typeof params.authorVisible === "boolean") sticky.authorVisible = params.authorVisible;
+    const name = stringParam(params, "name");
+    if (name) sticky.name = name;
+    sticky.x = numberParam(params, "x") ?? 0;
+    sticky.y = numberParam(params, "y") ?? 0;
+  } catch (err) {
+    sticky.remove();
+    throw err;
+  }
+  return sticky;
+}
+
+async function buildShapeWithText(params: Record<string, unknown>): Promise<ShapeWithTextNode> {
+  const shape = figma.createShapeWithText();
+  try {
+    shape.shapeType = enumParam(params, "shapeType", SHAPE_TYPES) ?? "ROUNDED_RECTANGLE";
+    const width = numberParam(params, "width");
+    const height = numberParam(params, "height");
+    if (width != null || height != null) shape.resize(Math.max(1, width ?? shape.width), Math.max(1, height ?? shape.height));
+    await setSublayerText(shape.text, stringParam(params, "text"));
+    const color = boardColorParam(params, "color", STICKY_COLORS);
+    if (color) shape.fills = [{ type: "SOLID", color }];
+    const name = stringParam(params, "name");
+    if (name) shape.name = name;
+    shape.x = numberParam(params, "x") ?? 0;
+    shape.y = numberParam(params, "y") ?? 0;
+  } catch (err) {
+    shape.remove();
+    throw err;
+  }
+  return shape;
+}
+
+async function buildSection(params: Record<string, unknown>): Promise<SectionNode> {
+  const section = figma.createSection();
+  try {
+    section.name = stringParam(params, "name") ?? "Section";
+    section.resizeWithoutConstraints(
+      Math.max(1, numberParam(params, "width") ?? 800),
+      Math.max(1, numberParam(params, "height") ?? 600)
+    );
+    const color = boardColorParam(params, "color", STICKY_COLORS);
+    if (color) section.fills = [{ type: "SOLID", color }];
+    section.x = numberParam(params, "x") ?? 0;
+    section.y = numberParam(params, "y") ?? 0;
+  } catch (err) {
+    section.remove();
+    throw err;
+  }
+  return section;
+}
+
+// Moves existing nodes into the section, keeping their canvas position, and grows the section around them.
+async function fillSection(section: SectionNode, params: Record<string, unknown>): Promise<number> {
+  const ids = Array.isArray(params.nodeIds) ? params.nodeIds : [];
+  if (ids.length === 0) return 0;
+  const nodes = await resolveNodeList(params, 1);
+  const padding = numberParam(params, "padding") ?? 40;
+  const boxes = nodes.map((node) => node.absoluteBoundingBox).filter((box): box is Rect => box != null);
+  if (boxes.length > 0 && params.width === undefined && params.height === undefined && params.x === undefined && params.y === undefined) {
+    const left = Math.min(...boxes.map((box) => box.x)) - padding;
+    const top = Math.min(...boxes.map((box) => box.y)) - padding;
+    const right = Math.max(...boxes.map((box) => box.x + box.width)) + padding;
+    const bottom = Math.max(...boxes.map((box) => box.y + box.height)) + padding;
+    section.x = left;
+    section.y = top;
+    section.resizeWithoutConstraints(right - left, bottom - top);
+  }
+  const origin = section.absoluteTransform;
+  for (const node of nodes) {
+    const box = node.absoluteBoundingBox;
+    section.appendChild(node);
+    if (box) {
+      node.x = box.x - origin[0][2];
+      node.y = box.y - origin[1][2];
+    }
+  }
+  return nodes.length;
+}
+
+async function buildTable(params: Record<string, unknown>): Promise<TableNode> {
+  const cells = Array.isArray(params.cells) ? params.cells.map((row) => (Array.isArray(row) ? row : [])) : [];
+  const rows = clampInt(numberParam(params, "rows") ?? Math.max(cells.length, 2), 1, 100);
+  const columns = clampInt(numberParam(params, "columns") ?? Math.max(2, ...cells.map((row) => row.length)), 1, 50);
+  const table = figma.createTable(rows, columns);
+  try {
+    const name = stringParam(params, "name");
+    if (name) table.name = name;
+
+    for (let r = 0; r < Math.min(rows, cells.length); r += 1) {
+      for (let c = 0; c < Math.min(columns, cells[r].length); c += 1) {
+        const value = cells[r][c];
+        if (value == null) continue;
+        await setSublayerText(table.cellAt(r, c).text, String(value));
+      }
+    }
+    table.x = numberParam(params, "x") ?? 0;
+    table.y = numberParam(params, "y") ?? 0;
+  } catch (err) {
+    table.remove();
+    throw err;
+  }
+  return table;
+}
+
+function connectorEndpoint(params: Record<string, unknown>, prefix: "start" | "end", nodeId: string): ConnectorEndpoint {
+  const magnet = enumParam(params, `${prefix}Magnet`, ["AUTO", "TOP", "BOTTOM", "LEFT", "RIGHT", "CENTER", "NONE"] as const) ?? "AUTO";
+  return { endpointNodeId: nodeId, magnet };
+}
+
+async function createConnector(params: Record<string, unknown>): Promise<unknown> {
+  const startId = stringParam(params, "startNodeId");
+  const endId = stringParam(params, "endNodeId");
+  if (!startId || !endId) throw new Error("startNodeId and endNodeId are required.");
+  for (const id of [startId, endId]) {
+    if (!isSceneNode(await figma.getNodeByIdAsync(id))) throw new Error(`Node not found for id ${id}`);
+  }
+
+  const connector = figma.createConnector();
+  figma.currentPage.appendChild(connector);
+  trackCreated(connector);
+  try {
+    connector.connectorStart = connectorEndpoint(params, "start", startId);
+    connector.connectorEnd = connectorEndpoint(params, "end", endId);
+    connector.connectorLineType = enumParam(params, "lineType", ["ELBOWED", "STRAIGHT", "CURVED"] as const) ?? "ELBOWED";
+    connector.connectorStartStrokeCap = enumParam(params, "startCap", CONNECTOR_CAPS) ?? "NONE";
+    connector.connectorEndStrokeCap = enumParam(params, "endCap", CONNECTOR_CAPS) ?? "ARROW_LINES";
+    const color = boardColorParam(params, "color", {});
+    if (color) connector.strokes = [{ type: "SOLID", color }];
+    const weight = numberParam(params, "strokeWeight");
+    if (weight != null) connector.strokeWeight = weight;
+    await setSublayerText(connector.text, stringParam(params, "text"));
+    const name = stringParam(params, "name");
+    if (name) connector.name = name;
+  } catch (err) {
+    connector.remove();
+    throw err;
+  }
+  figma.currentPage.selection = [connector];
+  return { id: connector.id, name: connector.name, startNodeId: startId, endNodeId: endId };
+}
+
+async function placeImage(params: Record<string, unknown>): Promise<unknown> {
+  const paint = buildPaint({ ...params, type: "IMAGE" }, "image") as ImagePaint;
+  const image = figma.getImageByHash(paint.imageHash!)!;
+  const size = await image.getSizeAsync();
+
+  if (stringParam(params, "nodeId")) {
+    const node = await resolveTargetNode(params);
+    if (!isFillableNode(node)) throw new Error("Target node does not support fills.");
+    node.fills = [paint];
+    figma.currentPage.selection = [node];
+    return { id: node.id, name: node.name, imageHash: paint.imageHash, imageWidth: size.width, imageHeight: size.height };
+  }
+
+  const rect = figma.createRectangle();
+  try {
+    rect.name = stringParam(params, "name") ?? "Image";
+    const width = numberParam(params, "width");
+    const height = numberParam(params, "height");
+    const aspect = size.height > 0 ? size.width / size.height : 1;
+    rect.resize(
+      Math.max(1, width ?? (height != null ? height * aspect : size.width)),
+      Math.max(1, height ?? (width != null ? width / aspect : size.height))
+    );
+    rect.x = numberParam(params, "x") ?? 0;
+    rect.y = numberParam(params, "y") ?? 0;
+    rect.fills = [paint];
+    const cornerRadius = numberParam(params, "cornerRadius");
+    if (cornerRadius != null) rect.cornerRadius = cornerRadius;
+
+  } catch (err) {
+    rect.remove();
+    throw err;
+  }
+  await appendAndFocus(rect, params);
+  return {
+    id: rect.id,
+    name: rect.name,
+    imageHash: paint.imageHash,
+    imageWidth: size.width,
+    imageHeight: size.height,
+    width: round(rect.width),
+    height: round(rect.height),
+  };
+}
+
+async function handleCommand(
+  tool: string,
+  params: Record<string, unknown>
+): Promise<unknown> {
+  assertToolAvailable(tool);
+
+  switch (tool) {
+    case "create_frame": {
+      const frame = await appendAndFocus(await buildFrame(params), params);
+      return { id: frame.id, name: frame.name };
+    }
+
+    case "create_component": {
+      const component = await appendAndFocus(await buildComponent(params), params);
+      return { id: component.id, name: component.name };
+    }
+
+    case "create_text": {
+      const text = await appendAndFocus(await buildText(params), params);
+      return { id: text.id, characters: text.characters };
+    }
+
+    case "create_rectangle": {
+      const rect = await appendAndFocus(await buildRectangle(params), params);
+      return { id: rect.id, name: rect.name };
+    }
+
+    case "create_ellipse": {
+      const ellipse = await appendAndFocus(await buildEllipse(params), params);
+      return { id: ellipse.id, name: ellipse.name };
+    }
+
+    case "create_line": {
+      const line = await appendAndFocus(await buildLine(params), params);
+      return { id: line.id, name: line.name };
+    }
+
+    case "create_polygon": {
+      const polygon = await appendAndFocus(await buildPolygon(params), params);
+      return { id: polygon.id, name: polygon.name, sides: polygon.pointCount };
+    }
+
+    case "create_star": {
+      const star = await appendAndFocus(await buildStar(params), params);
+      return { id: star.id, name: star.name, points: star.pointCount };
+    }
+
+    case "create_instance": {
+      const instance = await appendAndFocus(await buildInstance(params), params);
+      const main = await instance.getMainComponentAsync();
+      return { id: instance.id, name: instance.name, componentId: main ? main.id : null };
+    }
+
+    case "combine_as_variants":
+      return combineAsVariants(params);
+
+    case "add_component_property":
+      return addComponentProperty(params);
+
+    case "set_instance_properties": {
+      const node = await resolveTargetNode(params);
+      if (node.type !== "INSTANCE") throw new Error("Target node must be a component instance.");
+      await applyInstanceProperties(node, params);
+      figma.currentPage.selection = [node];
+      return { id: node.id, name: node.name, properties: node.componentProperties };
+    }
+
+    case "create_vector": {
+      const vector = await appendAndFocus(await buildVector(params), params);
+      return { id: vector.id, name: vector.name, width: round(vector.width), height: round(vector.height) };
+    }
+
+    case "import_svg": {
+      const svg = await appendAndFocus(await buildSvg(params), params);
+      return { id: svg.id, name: svg.name, width: round(svg.width), height: round(svg.height) };
+    }
+
+    case "boolean_operation":
+      return booleanOperation(params);
+
+    case "flatten_nodes":
+      return flattenNodes(params);
+
+    case "place_image":
+      return placeImage(params);
+
+    case "create_sticky": {
+      const sticky = await appendAndFocus(await buildSticky(params), params);
+      return { id: sticky.id, name: sticky.name, text: sticky.text.characters };
+    }
+
+    case "create_shape_with_text": {
+      const shape = await appendAndFocus(await buildShapeWithText(params), params);
+      return { id: shape.id, name: shape.name, shapeType: shape.shapeType, text: shape.text.characters };
+    }
+
+    case "create_section": {
+      const section = await buildSection(params);
+      const wrapsNodes = Array.isArray(params.nodeIds) && params.nodeIds.length > 0;
+      await appendAndFocus(section, wrapsNodes ? { ...params, placement: "absolute" } : params);
+      const moved = await fillSection(section, params);
+      return { id: section.id, name: section.name, width: round(section.width), height: round(section.height), children: moved };
+    }
+
+    case "create_table": {
+      const table = await appendAndFocus(await buildTable(params), params);
+      return { id: table.id, name: table.name, rows: table.numRows, columns: table.numColumns };
+    }
+
+    case "create_connector":
+      return createConnector(params);
+
+    case "get_editor_info":
+      return { editorType: figma.editorType };
+
+    case "create_from_spec":
+      return createFromSpec(params);
+
+    case "set_auto_layout": {
+      const node = await resolveTargetNode(params);
+      if (!isAutoLayoutNode(node)) {
+        throw new Error("Target node must be a frame or component for auto-layout.");
+      }
+      applyAutoLayoutSettings(node, params);
+      figma.currentPage.selection = [node];
+      figma.viewport.scrollAndZoomIntoView([node]);
+      return { id: node.id, name: node.name, layoutMode: node.layoutMode };
+    }
+
+    case "set_layout_child": {
+      const node = await resolveTargetNode(params);
+      applyLayoutChildSettings(node, params);
+      figma.currentPage.selection = [node];
+      return {
+        ...nodeGeometry(node),
+        layoutSizingHorizontal: "layoutSizingHorizontal" in node ? node.layoutSizingHorizontal : undefined,
+        layoutSizingVertical: "layoutSizingVertical" in node ? node.layoutSizingVertical : undefined,
+        layoutPositioning: "layoutPositioning" in node ? node.layoutPositioning : undefined,
+      };
+    }
+
+    case "set_fill_color": {
+      const node = await resolveTargetNode(params);
+      if (!isFillableNode(node)) {
+        throw new Error("Target node does not support fill color.");
+      }
+      const fill = colorParam(params, "fillR", "fillG", "fillB");
+      if (!fill) throw new Error("fillR, fillG, and fillB are required.");
+      const opacity = numberParam(params, "fillOpacity") ?? 1;
+      setNodeFill(node, fill, opacity);
+      figma.currentPage.selection = [node];
+      return { id: node.id, name: node.name };
+    }
+
+    case "set_corner_radius": {
+      const node = await resolveTargetNode(params);
+      if (!isCornerRadiusNode(node)) {
+        throw new Error("Target node does not support corner radius.");
+      }
+      const radius = numberParam(params, "cornerRadius");
+      if (radius == null) throw new Error("cornerRadius is required.");
+      node.cornerRadius = radius;
+      figma.currentPage.selection = [node];
+      return { id: node.id, name: node.name, cornerRadius: node.cornerRadius };
+    }
+
+    case "update_node":
+      return updateNode(params);
+
+    case "move_node":
+      return updateNode({ nodeId: params.nodeId, x: params.x, y: params.y, dx: params.dx, dy: params.dy });
+
+    case "reparent_node":
+      return reparentNode(params);
+
+    case "duplicate_node":
+      return duplicateNode(params);
+
+    case "delete_node":
+      return deleteNodes(params);
+
+    case "set_text_content": {
+      const text = await resolveTextNode(params);
+      if (stringParam(params, "text") == null) throw new Error("text is required.");
+      await loadTextNodeFonts(text);
+      text.characters = stringParam(params, "text")!;
+      figma.currentPage.selection = [text];
+      return textSummary(text);
+    }
+
+    case "set_text_style": {
+      const text = await resolveTextNode(params);
+      await loadTextNodeFonts(text);
+      if (text.characters.length > 0) {
+        await applyTextRangeStyle(text, { start: 0, end: text.characters.length }, params);
+      }
+      await applyTextLayoutParams(text, params);
+      figma.currentPage.selection = [text];
+      return textSummary(text);
+    }
+
+    case "set_paints": {
+      const node = await resolveTargetNode(params);
+      const paintKeys = ["fills", "strokes", "strokeWeight", "strokeAlign", "dashPattern"];
+      if (!paintKeys.some((key) => params[key] != null)) {
+        throw new Error(`Provide at least one of ${paintKeys.join(", ")}.`);
+      }
+      applyPaintParams(node, params);
+      figma.currentPage.selection = [node];
+      return { id: node.id, name: node.name };
+    }
+
+    case "set_effects": {
+      const node = await resolveTargetNode(params);
+      if (!("effects" in node)) throw new Error("Target node does not support effects.");
+      node.effects = buildEffects(params.effects ?? [], "effects");
+      figma.currentPage.selection = [node];
+      return { id: node.id, name: node.name, effects: node.effects.map(serializeEffect) };
+    }
+
+    case "create_variable_collection":
+      return createVariableCollection(params);
+
+    case "create_variable":
+      return createVariable(params);
+
+    case "list_variables":
+      return listVariables(params);
+
+    case "bind_variable":
+      return bindVariable(params);
+
+    case "set_variable_mode":
+      return setVariableMode(params);
+
+    case "list_styles":
+      return listStyles(params);
+
+    case "create_paint_style":
+      return createPaintStyle(params);
+
+    case "create_text_style": {
+      const { style, updated } = await upsertTextStyle(params);
+      return { ...serializeStyle(style), updated };
+    }
+
+    case "create_type_scale_styles":
+      return createTypeScaleStyles(params);
+
+    case "apply_style":
+      return applyStyle(params);
+
+    case "add_reaction":
+      return addReaction(params);
+
+    case "clear_reactions":
+      return clearReactions(params);
+
+    case "set_flow_starting_point":
+      return setFlowStartingPoint(params);
+
+    case "set_scroll_behavior":
+      return setScrollBehavior(params);
+
+    case "create_flow":
+      return createFlow(params);
+
+    case "export_node":
+      return exportNode(params);
+
+    case "find_nodes":
+      return findNodes(params);
+
+    case "audit_design":
+      return auditDesign(params);
+
+    case "audit_accessibility":
+      return auditAccessibility(params);
+
+    case "list_pages":
+      return listPages();
+
+    case "create_page":
+      return createPage(params);
+
+    case "rename_page": {
+      const page = await resolvePage(params);
+      const name = stringParam(params, "name");
+      if (!name) throw new Error("name is required.");
+      trackPageChanged(page);
+      page.name = name;
+      return pageSummary(page);
+    }
+
+    case "set_current_page": {
+      if (!stringParam(params, "pageId") && !stringParam(params, "pageName")) {
+        throw new Error("pageId or pageName is required.");
+      }
+      const page = await resolvePage(params);
+      await figma.setCurrentPageAsync(page);
+      return pageSummary(page);
+    }
+
+    case "get_selection":
+      return { nodes: selectionSummary() };
+
+    case "batch":
+      return runBatch(params);
+
+    case "begin_turn":
+      return beginTurn(params);
+
+    case "end_turn":
+      return endTurn(params);
+
+    case "undo_last_turn":
+      return undoLastTurn(params);
+
+    case "list_agent_nodes":
+      return listAgentNodes(params);
+
+    case "strip_provenance":
+      return stripProvenance(params);
+
+    case "get_node_tree":
+      return serializeNodeTree(params);
+
+    case "open_external_url": {
+      const url = stringParam(params, "url");
+      if (!url) {
+        throw new Error("url is required.");
+      }
+      await figma.openExternal(url);
+      return { ok: true, url };
+    }
+
+    default:
+      throw new Error(`Unknown tool: ${tool}`);
+  }
+}
+
+const LIVE_EVENT_DEBOUNCE_MS = 250;
+const LIVE_CHANGE_SAMPLE = 50;
+
+const liveTimers: Record<string, ReturnType<typeof setTimeout> | undefined> = {};
+let pendingChanges: DocumentChange[] = [];
+
+function selectionSummary(): Array<Record<string, unknown>> {
+  return figma.currentPage.selection.map((node) => ({
+    id: node.id,
+    name: node.name,
+    type: node.type,
+    x: node.x,
+    y: node.y,
+    width: "width" in node ? node.width : undefined,
+    height: "height" in node ? node.height : undefined,
+  }));
+}
+
+function postLiveEvent(event: string, build: () => unknown): void {
+  clearTimeout(liveTimers[event]);
+  liveTimers[event] = setTimeout(() => {
+    liveTimers[event] = undefined;
+    try {
+      figma.ui.postMessage({ type: "event", event, data: build() });
+    } catch {
+      // Nodes can disappear between the event and the flush; the next event carries fresh state.
+    }
+  }, LIVE_EVENT_DEBOUNCE_MS);
+}
+
+// Remote edits are collaborators'; local ones belong to the agent when a command touched the node (or an
+// ancestor it created), and to the designer otherwise.
+function changeSource(change: DocumentChange): string {
+  if (change.origin === "REMOTE") return "collaborator";
+  if (agentChangeIds.has(change.id)) return "agent";
+  if (!("node" in change) || change.node.removed) return "designer";
+  for (let current = change.node.parent; current && current.type !== "PAGE"; current = current.parent) {
+    if (agentChangeIds.has(current.id)) return "agent";
+  }
+  return "designer";
+}
+
+function documentChangeSummary(changes: DocumentChange[]): Record<string, unknown> {
+  const byType: Record<string, number> = {};
+  const bySource: Record<string, number> = {};
+  const nodes = new Map<string, Record<string, unknown>>();
+  for (const change of changes) {
+    byType[change.type] = (byType[change.type] ?? 0) + 1;
+    const source = changeSource(change);
+    bySource[source] = (bySource[source] ?? 0) + 1;
+    if (!("node" in change) || nodes.size >= LIVE_CHANGE_SAMPLE) continue;
+    const node = change.node;
+    const entry = nodes.get(node.id) ?? {
+      id: node.id,
+      name: node.removed ? undefined : node.name,
+      type: node.type,
+      source,
+      changes: [] as string[],
+      properties: [] as string[],
+    };
+    (entry.changes as string[]).push(change.type);
+    if (change.type === "PROPERTY_CHANGE") {
+      for (const property of change.properties) {
+        if (!(entry.properties as string[]).includes(property)) (entry.properties as string[]).push(property);
+      }
+    }
+    nodes.set(node.id, entry);
+  }
+  // Events for a finished command have all arrived by the time its debounced summary flushes.
+  if (!activeCommand) agentChangeIds.clear();
+  const sources = Object.keys(bySource);
+  return {
+    source: sources.length === 1 ? sources[0] : "mixed",
+    bySource,
+    total: changes.length,
+    byType,
+    nodes: Array.from(nodes.values()),
+    truncated: nodes.size >= LIVE_CHANGE_SAMPLE || undefined,
+  };
+}
+
+figma.on("selectionchange", () => {
+  postLiveEvent("selection", () => ({ pageId: figma.currentPage.id, nodes: selectionSummary() }));
+});
+
+// Seed the server's cache as soon as the UI connects.
+postLiveEvent("page", () => pageSummary(figma.currentPage));
+postLiveEvent("selection", () => ({ pageId: figma.currentPage.id, nodes: selectionSummary() }));
+
+figma.on("currentpagechange", () => {
+  postLiveEvent("page", () => pageSummary(figma.currentPage));
+  postLiveEvent("selection", () => ({ pageId: figma.currentPage.id, nodes: selectionSummary() }));
+});
+
+// dynamic-page documents must load every page before documentchange can be observed.
+void figma.loadAllPagesAsync().then(() => {
+  figma.on("documentchange", (event) => {
+    pendingChanges = pendingChanges.concat(event.documentChanges);
+    postLiveEvent("document", () => {
+      const changes = pendingChanges;
+      pendingChanges = [];
+      return documentChangeSummary(changes);
+    });
+  });
+});
@@ -17,6 +17,7 @@ const apiKeyInput = byId<HTMLInputElement>("apiKeyInput");
 const chatLog = byId<HTMLDivElement>("chatLog");
 const chatInput = byId<HTMLTextAreaElement>("chatInput");
 const sendChatBtn = byId<HTMLButtonElement>("sendChat");
+const undoTurnBtn = byId<HTMLButtonElement>("undoTurn");
 const clearChatBtn = byId<HTMLButtonElement>("clearChat");
 const chatMetaEl = byId<HTMLDivElement>("chatMeta");
 
@@ -26,6 +27,15 @@ interface PendingRequest {
   timeout: ReturnType<typeof setTimeout>;
 }
 
+interface CommandEnvelope {
+  id: string;
+  tool: string;
+  params?: Record<string, unknown>;
+  timeoutMs?: number;
+  deadline?: number;
+  turnId?: string;
+}
+
 interface WsAddress {
   protocol: "ws" | "wss";
   host: string;
@@ -47,9 +57,17 @@ interface ChatResponse {
   assistant: string;
   provider: string;
   model?: string;
+  turnId?: string;
   toolCalls?: Array<{ tool: string; params: Record<string, unknown> }>;
 }
 
+interface UndoTurnResult {
+  removedNodes: number;
+  restoredNodes: number;
+  notRestored: Array<{ id: string; name: string }>;
+  remainingTurns: number;
+}
+
 const pending = new Map<string, PendingRequest>();
 const chatHistory: ChatMessage[] = [];
 
@@ -58,6 +76,11 @@ let manualDisconnect = false;
 let httpMode = false;
 let httpBaseUrl = "";
 let httpAbort: AbortController | null = null;
+let undoableTurns = 0;
+let editorType = "figma";
+let unavailableTools: string[] = [];
+// Latest selection and page summaries, replayed whenever a new connection opens.
+const latestEvents: Record<string, unknown> = {};
 
 const DEFAULT_WS_URL = "ws://localhost:3055";
 const LOCAL_HTTP_MIN = 3056;
@@ -138,8 +161,25 @@ function createPendingRequest(id: string, timeoutMs = 30000): Promise<unknown> {
   });
 }
 
+function commandTimeout(cmd: Partial<CommandEnvelope>): number {
+  // Leave the server's own timer a head start so its error is the one surfaced.
+  if (typeof cmd.deadline === "number") return Math.max(0, cmd.deadline - Date.now()) + 5000;
+  return typeof cmd.timeoutMs === "number" ? cmd.timeoutMs + 5000 : 30000;
+}
+
 window.onmessage = (event: MessageEvent) => {
   const msg = event.data && event.data.pluginMessage;
+  if (msg && msg.type === "editor" && typeof msg.editorType === "string") {
+    editorType = msg.editorType;
+    unavailableTools = Array.isArray(msg.unavailableTools) ? msg.unavailableTools : [];
+    sendPluginInfo();
+    return;
+  }
+  if (msg && msg.type === "event" && typeof msg.event === "string") {
+    if (msg.event !== "document") latestEvents[msg.event] = msg.data;
+    sendToServer({ type: "plugin_event", event: msg.event, data: msg.data });
+    return;
+  }
   if (!msg || !msg.id) return;
   const req = pending.get(msg.id);
   if (!req) return;
@@ -151,6 +191,27 @@ window.onmessage = (event: MessageEvent) => {
   else if (msg.type === "error") req.reject(new Error(msg.error));
 };
 
+// Fire-and-forget messages to the server; HTTP mode posts them to /plugin-message.
+function sendToServer(message: Record<string, unknown>) {
+  if (ws && ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(message));
+  } else if (httpMode && httpBaseUrl) {
+    void fetch(httpBaseUrl + "/plugin-message", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(message),
+    }).catch(() => undefined);
+  }
+}
+
+// Tells the server which editor we run in so it only offers tools that work here, then replays live state.
+function sendPluginInfo() {
+  sendToServer({ type: "plugin_info", editorType, unavailableTools });
+  for (const [event, data] of Object.entries(latestEvents)) {
+    sendToServer({ type: "plugin_event", event, data });
+  }
+}
+
 function wsUrlToHttpPollUrl(wsUrl: string): string {
   const m = wsUrl.match(/^(wss?):\/\/([^:/]+)(?::(\d+))?/);
   if (!m) return "http://localhost:3056";
@@ -225,13 +286,13 @@ async function runHttpPollLoop(baseUrl: string) {
       const res = await fetch(baseUrl + "/poll", { signal: httpAbort.signal });
       if (!res.ok) throw new Error(`HTTP ${res.status}`);
 
-      const cmd = (await res.json()) as { id: string; tool: string; params: Record<string, unknown> };
-      const { id, tool, params } = cmd;
+      const cmd = (await res.json()) as CommandEnvelope;
+      const { id, tool, params, deadline, turnId } = cmd;
       if (!id || !tool) continue;
 
-      const promise = createPendingRequest(id, 30000);
+      const promise = createPendingRequest(id, commandTimeout(cmd));
       parent.postMessage(
-        { pluginMessage: { type: "command", id, tool, params: params ?? {} } },
+        { pluginMessage: { type: "command", id, tool, params: params ?? {}, deadline, turnId } },
         "*"
       );
 
@@ -266,6 +327,7 @@ function startHttpMode(wsUrl: string) {
   setError("");
   connectBtn.textContent = "Disconnect";
   connectBtn.disabled = false;
+  sendPluginInfo();
   void runHttpPollLoop(httpBaseUrl);
 }
 
@@ -311,6 +373,7 @@ async function connect() {
     setStatus("connected", "Connected");
     connectBtn.textContent = "Disconnect";
     connectBtn.disabled = false;
+    sendPluginInfo();
   };
 
   ws.onclose = () => {
@@ -349,12 +412,12 @@ async function connect() {
     try {
       const msg = JSON.parse(event.data as string);
       id = msg.id;
-      const { tool, params } = msg as { id?: string; tool?: string; params?: Record<string, unknown> };
+      const { tool, params, deadline, turnId } = msg as Partial<CommandEnvelope>;
       if (!id || !tool) return;
 
-      const promise = createPendingRequest(id, 30000);
+      const promise = createPendingRequest(id, commandTimeout(msg));
       parent.postMessage(
-        { pluginMessage: { type: "command", id, tool, params: params ?? {} } },
+        { pluginMessage: { type: "command", id, tool, params: params ?? {}, deadline, turnId } },
         "*"
       );
 
@@ -435,6 +498,10 @@ async function sendChat() {
     addChatBubble("assistant", assistant);
 
     const toolsUsed = "toolCalls" in data && Array.isArray(data.toolCalls) ? data.toolCalls.length : 0;
+    if ("turnId" in data && data.turnId && toolsUsed > 0) {
+      undoableTurns += 1;
+      undoTurnBtn.disabled = false;
+    }
     setMeta(`${provider} responded${toolsUsed > 0 ? ` and ran ${toolsUsed} tool${toolsUsed > 1 ? "s" : ""}` : ""}.`);
   } catch (e) {
     const msg = e instanceof Error ? e.message : String(e);
@@ -445,6 +512,32 @@ async function sendChat() {
   }
 }
 
+// Runs inside the plugin directly, so undo works even when the server has gone away.
+async function revertLastTurn() {
+  undoTurnBtn.disabled = true;
+  setError("");
+  const id = makeRequestId("undo-turn");
+  const promise = createPendingRequest(id);
+  parent.postMessage({ pluginMessage: { type: "command", id, tool: "undo_last_turn", params: {} } }, "*");
+
+  try {
+    const result = (await promise) as UndoTurnResult;
+    undoableTurns = result.remainingTurns;
+    const parts = [`removed ${result.removedNodes} node(s)`, `restored ${result.restoredNodes}`];
+    if (result.notRestored.length > 0) {
+      parts.push(`${result.notRestored.length} deleted node(s) need Cmd/Ctrl+Z`);
+    }
+    addChatBubble("assistant", `Undid last turn: ${parts.join(", ")}.`);
+    setMeta("Last turn reverted.");
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    undoableTurns = 0;
+    setError(`Undo failed: ${msg}`);
+  } finally {
+    undoTurnBtn.disabled = undoableTurns === 0;
+  }
+}
+
 connectBtn.addEventListener("click", () => {
   if (httpMode) {
     manualDisconnect = true;
@@ -480,6 +573,10 @@ chatInput.addEventListener("keydown", (e) => {
   }
 });
 
+undoTurnBtn.addEventListener("click", () => {
+  void revertLastTurn();
+});
+
 clearChatBtn.addEventListener("click", () => {
   clearChat();
   setMeta("Chat cleared.");
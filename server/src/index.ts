@@ -1,10 +1,19 @@
 #!/usr/bin/env node
 
+import * as fs from "fs";
 import * as http from "http";
 import * as net from "net";
+import * as path from "path";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { CallToolRequestSchema, ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import {
+  CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
 import { WebSocketServer, type WebSocket } from "ws";
 
 const FIGSOR_PORT_INIT = parseInt(process.env.FIGSOR_PORT ?? "3055", 10);
@@ -43,6 +52,20 @@ interface ExecutedToolCall {
   error?: string;
 }
 
+interface ExportedAsset {
+  id: string;
+  name: string;
+  format: string;
+  mimeType: string;
+  byteLength: number;
+  base64: string;
+  savedTo?: string;
+}
+
+type ToolContent =
+  | { type: "text"; text: string }
+  | { type: "image"; data: string; mimeType: string };
+
 interface OpenAIResponse {
   id: string;
   output_text?: string;
@@ -55,6 +78,214 @@ interface OpenAIFunctionCall {
   arguments: string;
 }
 
+const TARGET_PROPERTIES: JsonObject = {
+  parentId: { type: "string", description: "Container to append into. Defaults to the selection." },
+  pageId: { type: "string", description: "Page to append to when no parentId is given." },
+  pageName: { type: "string", description: "Page to append to by name, instead of pageId." },
+  placement: {
+    type: "string",
+    enum: ["auto", "inside", "after", "below", "absolute"],
+    description:
+      "auto (default): parentId, pageId/pageName or the selection; without x/y, top-level nodes go right of existing content and frame children into free space. inside: nest into relativeTo. after/below: next to relativeTo (or the selection) in its parent, without overlapping siblings. absolute: use x/y as given and never nest into the selection.",
+  },
+  relativeTo: { type: "string", description: "Anchor node id for placement inside, after or below." },
+  placementGap: { type: "number", description: "Gap in px used by placement (default 80 on the canvas, 24 inside frames)." },
+};
+
+const LAYOUT_CHILD_PROPERTIES: JsonObject = {
+  layoutSizingHorizontal: {
+    type: "string",
+    enum: ["FIXED", "HUG", "FILL"],
+    description: "FILL stretches inside an auto-layout parent; HUG shrinks auto-layout frames and text to content.",
+  },
+  layoutSizingVertical: { type: "string", enum: ["FIXED", "HUG", "FILL"] },
+  layoutGrow: { type: "number", description: "1 to grow along the parent's primary axis, 0 to stay fixed." },
+  layoutAlign: { type: "string", enum: ["MIN", "CENTER", "MAX", "STRETCH", "INHERIT"] },
+  layoutPositioning: {
+    type: "string",
+    enum: ["AUTO", "ABSOLUTE"],
+    description: "ABSOLUTE takes the child out of the auto-layout flow (badges, overlays).",
+  },
+  minWidth: { type: ["number", "null"] },
+  maxWidth: { type: ["number", "null"] },
+  minHeight: { type: ["number", "null"] },
+  maxHeight: { type: ["number", "null"] },
+  constraintHorizontal: { type: "string", enum: ["MIN", "CENTER", "MAX", "STRETCH", "SCALE"] },
+  constraintVertical: { type: "string", enum: ["MIN", "CENTER", "MAX", "STRETCH", "SCALE"] },
+};
+
+const COLOR_SCHEMA = {
+  description: "Hex string (\"#3b82f6\", \"#00000019\") or { r, g, b, a } with 0-1 channels.",
+  type: ["string", "object"],
+};
+
+const IMAGE_PROPERTIES: JsonObject = {
+  filePath: { type: "string", description: "PNG, JPG or GIF on the server machine (IMAGE paints)." },
+  base64: { type: "string", description: "Base64 image bytes (IMAGE paints)." },
+  imageHash: { type: "string", description: "Hash of an image already in the file (IMAGE paints)." },
+  scaleMode: { type: "string", enum: ["FILL", "FIT", "CROP", "TILE"] },
+  scalingFactor: { type: "number", description: "Tile scale when scaleMode is TILE." },
+  cropX: { type: "number", description: "CROP: left edge of the visible area, 0-1 of image width." },
+  cropY: { type: "number", description: "CROP: top edge of the visible area, 0-1 of image height." },
+  cropWidth: { type: "number", description: "CROP: visible width, 0-1 of image width." },
+  cropHeight: { type: "number", description: "CROP: visible height, 0-1 of image height." },
+};
+
+const PAINT_SCHEMA = {
+  type: "object",
+  properties: {
+    type: {
+      type: "string",
+      enum: ["SOLID", "GRADIENT_LINEAR", "GRADIENT_RADIAL", "GRADIENT_ANGULAR", "GRADIENT_DIAMOND", "IMAGE"],
+    },
+    color: COLOR_SCHEMA,
+    opacity: { type: "number" },
+    visible: { type: "boolean" },
+    angle: { type: "number", description: "Gradient direction in degrees: 0 left to right, 90 top to bottom." },
+    stops: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { position: { type: "number" }, color: COLOR_SCHEMA },
+      },
+    },
+    ...IMAGE_PROPERTIES,
+  },
+};
+
+const EFFECT_SCHEMA = {
+  type: "object",
+  properties: {
+    type: { type: "string", enum: ["DROP_SHADOW", "INNER_SHADOW", "LAYER_BLUR", "BACKGROUND_BLUR"] },
+    color: COLOR_SCHEMA,
+    offsetX: { type: "number" },
+    offsetY: { type: "number" },
+    radius: { type: "number" },
+    spread: { type: "number" },
+    visible: { type: "boolean" },
+  },
+  required: ["type"],
+};
+
+const STROKE_PROPERTIES: JsonObject = {
+  strokes: { type: "array", items: PAINT_SCHEMA, description: "Stroke paints, bottom to top." },
+  strokeWeight: { type: "number" },
+  strokeAlign: { type: "string", enum: ["INSIDE", "OUTSIDE", "CENTER"] },
+  dashPattern: { type: "array", items: { type: "number" }, description: "Dash and gap lengths, e.g. [4, 4]." },
+};
+
+const PAINT_PROPERTIES: JsonObject = {
+  fills: {
+    type: "array",
+    items: PAINT_SCHEMA,
+    description: "Stacked fill paints, bottom to top. Overrides fillR/G/B.",
+  },
+  ...STROKE_PROPERTIES,
+  effects: { type: "array", items: EFFECT_SCHEMA },
+  fillStyleId: { type: "string" },
+  fillStyleName: { type: "string", description: "Local paint style to link instead of raw fill values, e.g. Primary/500." },
+  strokeStyleId: { type: "string" },
+  strokeStyleName: { type: "string" },
+};
+
+const INSTANCE_PROPERTIES_SCHEMA = {
+  type: "object",
+  description: "Property values by name, e.g. { Label: \"Buy now\", \"Show icon\": false, Size: \"Large\" }.",
+};
+
+const INSTANCE_OVERRIDES_SCHEMA = {
+  type: "array",
+  description: "Overrides on nested layers, matched by layerName or nodeId.",
+  items: {
+    type: "object",
+    properties: {
+      layerName: { type: "string" },
+      nodeId: { type: "string" },
+      text: { type: "string" },
+      visible: { type: "boolean" },
+      fillR: { type: "number" },
+      fillG: { type: "number" },
+      fillB: { type: "number" },
+      fills: { type: "array", items: PAINT_SCHEMA },
+    },
+  },
+};
+
+const TEXT_RANGES_SCHEMA = {
+  type: "array",
+  description:
+    "Per-range styles. Target with start/end character offsets or match (every occurrence of a substring unless all is false).",
+  items: {
+    type: "object",
+    properties: {
+      start: { type: "number" },
+      end: { type: "number" },
+      match: { type: "string" },
+      all: { type: "boolean" },
+      fontFamily: { type: "string" },
+      fontStyle: { type: "string" },
+      fontSize: { type: "number" },
+      fillR: { type: "number" },
+      fillG: { type: "number" },
+      fillB: { type: "number" },
+      fillOpacity: { type: "number" },
+      lineHeight: { type: "number" },
+      letterSpacing: { type: "number" },
+      textDecoration: { type: "string", enum: ["NONE", "UNDERLINE", "STRIKETHROUGH"] },
+      textCase: { type: "string", enum: ["ORIGINAL", "UPPER", "LOWER", "TITLE"] },
+    },
+  },
+};
+
+const TEXT_STYLE_PROPERTIES: JsonObject = {
+  lineHeight: { type: ["number", "string"], description: "Pixels, or \"AUTO\"." },
+  lineHeightPercent: { type: "number" },
+  letterSpacing: { type: "number", description: "Pixels." },
+  letterSpacingPercent: { type: "number" },
+  paragraphSpacing: { type: "number" },
+  textAlignHorizontal: { type: "string", enum: ["LEFT", "CENTER", "RIGHT", "JUSTIFIED"] },
+  textAlignVertical: { type: "string", enum: ["TOP", "CENTER", "BOTTOM"] },
+  textDecoration: { type: "string", enum: ["NONE", "UNDERLINE", "STRIKETHROUGH"] },
+  textCase: { type: "string", enum: ["ORIGINAL", "UPPER", "LOWER", "TITLE"] },
+  textAutoResize: { type: "string", enum: ["NONE", "WIDTH_AND_HEIGHT", "HEIGHT", "TRUNCATE"] },
+  width: { type: "number", description: "Fixed width; text wraps and grows in height. Not allowed with textAutoResize WIDTH_AND_HEIGHT." },
+  ranges: TEXT_RANGES_SCHEMA,
+};
+
+const PROVENANCE_FILTER_PROPERTIES: JsonObject = {
+  turnId: { type: "string", description: "Chat turn id, as returned by the plugin chat." },
+  provider: { type: "string", description: "local, openai, or mcp for direct tool calls." },
+  model: { type: "string" },
+  tool: { type: "string", description: "Tool that created or modified the node." },
+  action: { type: "string", enum: ["created", "modified"] },
+  rootId: { type: "string" },
+  allPages: { type: "boolean" },
+};
+
+const TRANSITION_PROPERTIES: JsonObject = {
+  trigger: {
+    type: "string",
+    enum: ["ON_CLICK", "ON_HOVER", "ON_PRESS", "ON_DRAG", "AFTER_TIMEOUT", "MOUSE_ENTER", "MOUSE_LEAVE", "MOUSE_UP", "MOUSE_DOWN"],
+    description: "Default ON_CLICK.",
+  },
+  timeout: { type: "number", description: "AFTER_TIMEOUT delay in seconds (default 0.8)." },
+  delay: { type: "number", description: "MOUSE_* trigger delay in seconds." },
+  transition: {
+    type: "string",
+    enum: ["INSTANT", "DISSOLVE", "SMART_ANIMATE", "SCROLL_ANIMATE", "MOVE_IN", "MOVE_OUT", "PUSH", "SLIDE_IN", "SLIDE_OUT"],
+    description: "Default INSTANT.",
+  },
+  direction: { type: "string", enum: ["LEFT", "RIGHT", "TOP", "BOTTOM"], description: "For MOVE/PUSH/SLIDE transitions." },
+  matchLayers: { type: "boolean" },
+  easing: {
+    type: "string",
+    enum: ["EASE_IN", "EASE_OUT", "EASE_IN_AND_OUT", "LINEAR", "EASE_IN_BACK", "EASE_OUT_BACK", "EASE_IN_AND_OUT_BACK", "GENTLE", "QUICK", "BOUNCY", "SLOW"],
+    description: "Default EASE_OUT.",
+  },
+  bezier: { type: "array", items: { type: "number" }, description: "Custom cubic bezier [x1, y1, x2, y2]; overrides easing." },
+  duration: { type: "number", description: "Transition duration in seconds (default 0.3)." },
+};
+
 const TOOL_SPECS: ToolSpec[] = [
   {
     name: "create_frame",
@@ -63,6 +294,9 @@ const TOOL_SPECS: ToolSpec[] = [
     inputSchema: {
       type: "object",
       properties: {
+        ...TARGET_PROPERTIES,
+        ...LAYOUT_CHILD_PROPERTIES,
+        ...PAINT_PROPERTIES,
         name: { type: "string" },
         x: { type: "number" },
         y: { type: "number" },
@@ -70,6 +304,9 @@ const TOOL_SPECS: ToolSpec[] = [
         height: { type: "number" },
         layoutMode: { type: "string", enum: ["NONE", "HORIZONTAL", "VERTICAL"] },
         itemSpacing: { type: "number" },
+        layoutWrap: { type: "string", enum: ["NO_WRAP", "WRAP"] },
+        counterAxisSpacing: { type: "number", description: "Gap between wrapped rows." },
+        counterAxisAlignContent: { type: "string", enum: ["AUTO", "SPACE_BETWEEN"] },
         paddingTop: { type: "number" },
         paddingRight: { type: "number" },
         paddingBottom: { type: "number" },
@@ -79,10 +316,15 @@ const TOOL_SPECS: ToolSpec[] = [
   },
   {
     name: "create_text",
-    description: "Create text in Figma. Optionally set font family/style, size, color, and position.",
+    description:
+      "Create text in Figma. Optionally set font family/style, size, color, position, line height, letter spacing, alignment, fixed width wrapping, and per-range styles (e.g. one bold word).",
     inputSchema: {
       type: "object",
       properties: {
+        ...TARGET_PROPERTIES,
+        ...LAYOUT_CHILD_PROPERTIES,
+        ...PAINT_PROPERTIES,
+        name: { type: "string" },
         text: { type: "string" },
         fontSize: { type: "number" },
         fontFamily: { type: "string" },
@@ -92,6 +334,9 @@ const TOOL_SPECS: ToolSpec[] = [
         fillB: { type: "number" },
         x: { type: "number" },
         y: { type: "number" },
+        ...TEXT_STYLE_PROPERTIES,
+        textStyleId: { type: "string" },
+        textStyleName: { type: "string", description: "Local text style to link instead of raw font values, e.g. Heading/H1." },
       },
     },
   },
@@ -101,6 +346,9 @@ const TOOL_SPECS: ToolSpec[] = [
     inputSchema: {
       type: "object",
       properties: {
+        ...TARGET_PROPERTIES,
+        ...LAYOUT_CHILD_PROPERTIES,
+        ...PAINT_PROPERTIES,
         name: { type: "string" },
         width: { type: "number" },
         height: { type: "number" },
@@ -119,6 +367,9 @@ const TOOL_SPECS: ToolSpec[] = [
     inputSchema: {
       type: "object",
       properties: {
+        ...TARGET_PROPERTIES,
+        ...LAYOUT_CHILD_PROPERTIES,
+        ...PAINT_PROPERTIES,
         name: { type: "string" },
         width: { type: "number" },
         height: { type: "number" },
@@ -136,6 +387,9 @@ const TOOL_SPECS: ToolSpec[] = [
     inputSchema: {
       type: "object",
       properties: {
+        ...TARGET_PROPERTIES,
+        ...LAYOUT_CHILD_PROPERTIES,
+        ...PAINT_PROPERTIES,
         name: { type: "string" },
         width: { type: "number" },
         height: { type: "number" },
@@ -148,6 +402,9 @@ const TOOL_SPECS: ToolSpec[] = [
         cornerRadius: { type: "number" },
         layoutMode: { type: "string", enum: ["NONE", "HORIZONTAL", "VERTICAL"] },
         itemSpacing: { type: "number" },
+        layoutWrap: { type: "string", enum: ["NO_WRAP", "WRAP"] },
+        counterAxisSpacing: { type: "number", description: "Gap between wrapped rows." },
+        counterAxisAlignContent: { type: "string", enum: ["AUTO", "SPACE_BETWEEN"] },
       },
     },
   },
@@ -157,6 +414,9 @@ const TOOL_SPECS: ToolSpec[] = [
     inputSchema: {
       type: "object",
       properties: {
+        ...TARGET_PROPERTIES,
+        ...LAYOUT_CHILD_PROPERTIES,
+        ...PAINT_PROPERTIES,
         name: { type: "string" },
         length: { type: "number" },
         x: { type: "number" },
@@ -176,6 +436,9 @@ const TOOL_SPECS: ToolSpec[] = [
     inputSchema: {
       type: "object",
       properties: {
+        ...TARGET_PROPERTIES,
+        ...LAYOUT_CHILD_PROPERTIES,
+        ...PAINT_PROPERTIES,
         name: { type: "string" },
         sides: { type: "number" },
         radius: { type: "number" },
@@ -195,6 +458,9 @@ const TOOL_SPECS: ToolSpec[] = [
     inputSchema: {
       type: "object",
       properties: {
+        ...TARGET_PROPERTIES,
+        ...LAYOUT_CHILD_PROPERTIES,
+        ...PAINT_PROPERTIES,
         name: { type: "string" },
         points: { type: "number" },
         radius: { type: "number" },
@@ -217,12 +483,29 @@ const TOOL_SPECS: ToolSpec[] = [
         nodeId: { type: "string" },
         layoutMode: { type: "string", enum: ["NONE", "HORIZONTAL", "VERTICAL"] },
         itemSpacing: { type: "number" },
+        layoutWrap: { type: "string", enum: ["NO_WRAP", "WRAP"] },
+        counterAxisSpacing: { type: "number", description: "Gap between wrapped rows." },
+        counterAxisAlignContent: { type: "string", enum: ["AUTO", "SPACE_BETWEEN"] },
         paddingTop: { type: "number" },
         paddingRight: { type: "number" },
         paddingBottom: { type: "number" },
         paddingLeft: { type: "number" },
         primaryAxisAlignItems: { type: "string", enum: ["MIN", "CENTER", "MAX", "SPACE_BETWEEN"] },
         counterAxisAlignItems: { type: "string", enum: ["MIN", "CENTER", "MAX", "BASELINE"] },
+        primaryAxisSizingMode: { type: "string", enum: ["FIXED", "AUTO"] },
+        counterAxisSizingMode: { type: "string", enum: ["FIXED", "AUTO"] },
+      },
+    },
+  },
+  {
+    name: "set_layout_child",
+    description:
+      "Set how a node sizes and positions itself: FIXED/HUG/FILL sizing, grow, align and absolute positioning inside auto-layout, min/max width and height, or constraints inside a regular frame.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        nodeId: { type: "string" },
+        ...LAYOUT_CHILD_PROPERTIES,
       },
     },
   },
@@ -254,117 +537,2808 @@ const TOOL_SPECS: ToolSpec[] = [
     },
   },
   {
-    name: "get_selection",
-    description: "Get current selection in Figma.",
-    inputSchema: { type: "object", properties: {} },
+    name: "update_node",
+    description:
+      "Update an existing node: name, x, y (or dx, dy offsets), width, height, rotation, opacity, visible, locked. Returns the node's new geometry.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        nodeId: { type: "string" },
+        name: { type: "string" },
+        x: { type: "number" },
+        y: { type: "number" },
+        dx: { type: "number" },
+        dy: { type: "number" },
+        width: { type: "number" },
+        height: { type: "number" },
+        rotation: { type: "number" },
+        opacity: { type: "number" },
+        visible: { type: "boolean" },
+        locked: { type: "boolean" },
+      },
+    },
   },
   {
-    name: "get_figma_prompt",
-    description: "Get and clear the latest prompt saved from the plugin.",
-    inputSchema: { type: "object", properties: {} },
+    name: "move_node",
+    description: "Move a node to x, y or by dx, dy relative to its parent. Returns the node's new geometry.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        nodeId: { type: "string" },
+        x: { type: "number" },
+        y: { type: "number" },
+        dx: { type: "number" },
+        dy: { type: "number" },
+      },
+    },
   },
-];
+  {
+    name: "reparent_node",
+    description:
+      "Move a node into parentId at index (0 = bottom/first). Omit parentId to reorder within the current parent, e.g. put the CTA after the headline in an auto-layout frame.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        nodeId: { type: "string" },
+        parentId: { type: "string" },
+        index: { type: "number" },
+        x: { type: "number" },
+        y: { type: "number" },
+      },
+    },
+  },
+  {
+    name: "duplicate_node",
+    description:
+      "Duplicate a node. The copy goes right after the original unless parentId/index are given; x, y, dx, dy and name adjust the copy.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        nodeId: { type: "string" },
+        parentId: { type: "string" },
+        index: { type: "number" },
+        name: { type: "string" },
+        x: { type: "number" },
+        y: { type: "number" },
+        dx: { type: "number" },
+        dy: { type: "number" },
+      },
+    },
+  },
+  {
+    name: "delete_node",
+    description: "Delete nodes by nodeId or nodeIds. Ids are required; the selection is never deleted implicitly.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        nodeId: { type: "string" },
+        nodeIds: { type: "array", items: { type: "string" } },
+      },
+    },
+  },
+  {
+    name: "set_text_content",
+    description: "Replace the characters of an existing text node, keeping its styling.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        nodeId: { type: "string" },
+        text: { type: "string" },
+      },
+      required: ["text"],
+    },
+  },
+  {
+    name: "set_text_style",
+    description:
+      "Restyle an existing text node. Font, size and fill apply to the whole text; ranges style parts of it by start/end offsets or by matching a substring.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        nodeId: { type: "string" },
+        fontSize: { type: "number" },
+        fontFamily: { type: "string" },
+        fontStyle: { type: "string" },
+        fillR: { type: "number" },
+        fillG: { type: "number" },
+        fillB: { type: "number" },
+        fillOpacity: { type: "number" },
+        ...TEXT_STYLE_PROPERTIES,
+      },
+    },
+  },
+  {
+    name: "set_paints",
+    description:
+      "Replace fills and/or strokes on a node. Supports stacked solid and linear/radial/angular/diamond gradient paints, stroke weight, alignment and dash pattern.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        nodeId: { type: "string" },
+        fills: { type: "array", items: PAINT_SCHEMA },
+        ...STROKE_PROPERTIES,
+      },
+    },
+  },
+  {
+    name: "set_effects",
+    description:
+      "Replace the effects on a node with drop/inner shadows and layer/background blurs. Pass an empty array to clear.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        nodeId: { type: "string" },
+        effects: { type: "array", items: EFFECT_SCHEMA },
+      },
+      required: ["effects"],
+    },
+  },
+  {
+    name: "create_variable_collection",
+    description: "Create a local variable collection with named modes, e.g. modes: [\"Light\", \"Dark\"].",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        modes: { type: "array", items: { type: "string" } },
+      },
+      required: ["name"],
+    },
+  },
+  {
+    name: "create_variable",
+    description:
+      "Create a COLOR, FLOAT, STRING or BOOLEAN variable in a collection. Give one value for every mode or values keyed by mode name; { aliasOf: variableId } references another variable.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        collectionId: { type: "string" },
+        collectionName: { type: "string" },
+        name: { type: "string", description: "Slash-separated names group variables, e.g. color/primary." },
+        type: { type: "string", enum: ["COLOR", "FLOAT", "STRING", "BOOLEAN"] },
+        value: { description: "Hex or { r, g, b, a } for COLOR, number for FLOAT." },
+        values: { type: "object", description: "Per-mode values, e.g. { Light: \"#ffffff\", Dark: \"#09090b\" }." },
+      },
+      required: ["name", "type"],
+    },
+  },
+  {
+    name: "list_variables",
+    description: "List local variable collections, their modes, and variables with values per mode.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        collectionName: { type: "string" },
+      },
+    },
+  },
+  {
+    name: "bind_variable",
+    description:
+      "Bind a node property to a variable so it follows theme modes. field is fills or strokes (COLOR), or a number field: cornerRadius, padding, paddingX, paddingY, itemSpacing, counterAxisSpacing, width, height, opacity, strokeWeight, paddingTop...",
+    inputSchema: {
+      type: "object",
+      properties: {
+        nodeId: { type: "string" },
+        field: { type: "string" },
+        variableId: { type: "string" },
+        variableName: { type: "string" },
+        collectionName: { type: "string" },
+      },
+      required: ["field"],
+    },
+  },
+  {
+    name: "set_variable_mode",
+    description: "Pin a frame (and its children) to a mode of a collection, e.g. show a screen in Dark.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        nodeId: { type: "string" },
+        collectionId: { type: "string" },
+        collectionName: { type: "string" },
+        mode: { type: "string" },
+      },
+      required: ["mode"],
+    },
+  },
+  {
+    name: "list_styles",
+    description: "List local paint and text styles with their ids and values.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        type: { type: "string", enum: ["PAINT", "TEXT"] },
+      },
+    },
+  },
+  {
+    name: "create_paint_style",
+    description:
+      "Create (or update by name) a local paint style such as Primary/500 from color, fills, or fillR/G/B.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        color: COLOR_SCHEMA,
+        fills: { type: "array", items: PAINT_SCHEMA },
+        fillR: { type: "number" },
+        fillG: { type: "number" },
+        fillB: { type: "number" },
+        fillOpacity: { type: "number" },
+        description: { type: "string" },
+      },
+      required: ["name"],
+    },
+  },
+  {
+    name: "create_text_style",
+    description: "Create (or update by name) a local text style such as Heading/H1.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        fontFamily: { type: "string" },
+        fontStyle: { type: "string" },
+        fontSize: { type: "number" },
+        lineHeight: { type: ["number", "string"], description: "Pixels, or \"AUTO\"." },
+        lineHeightPercent: { type: "number" },
+        letterSpacing: { type: "number" },
+        letterSpacingPercent: { type: "number" },
+        paragraphSpacing: { type: "number" },
+        textDecoration: { type: "string", enum: ["NONE", "UNDERLINE", "STRIKETHROUGH"] },
+        textCase: { type: "string", enum: ["ORIGINAL", "UPPER", "LOWER", "TITLE"] },
+        description: { type: "string" },
+      },
+      required: ["name"],
+    },
+  },
+  {
+    name: "create_type_scale_styles",
+    description:
+      "Create or refresh the project type scale (12-72px from docs/design-tokens.md) as text styles: Caption, Body/*, Heading/H1-H3, Display/*.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        fontFamily: { type: "string" },
+        prefix: { type: "string", description: "Optional group prefix, e.g. Web." },
+      },
+    },
+  },
+  {
+    name: "apply_style",
+    description: "Link a node to a local style by styleId or styleName. target picks fill, stroke or text.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        nodeId: { type: "string" },
+        styleId: { type: "string" },
+        styleName: { type: "string" },
+        target: { type: "string", enum: ["fill", "stroke", "text"] },
+      },
+    },
+  },
+  {
+    name: "create_sticky",
+    description: "FigJam: add a sticky note. color is a FigJam name (gray, yellow, orange, red, pink, violet, blue, teal, green, white) or hex.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...TARGET_PROPERTIES,
+        text: { type: "string" },
+        color: { type: "string" },
+        wide: { type: "boolean", description: "Use the wide sticky shape." },
+        authorVisible: { type: "boolean" },
+        name: { type: "string" },
+        x: { type: "number" },
+        y: { type: "number" },
+      },
+    },
+  },
+  {
+    name: "create_shape_with_text",
+    description: "FigJam: add a diagram shape with a label, e.g. ROUNDED_RECTANGLE for steps, DIAMOND for decisions, ENG_DATABASE for stores.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...TARGET_PROPERTIES,
+        shapeType: {
+          type: "string",
+          enum: [
+            "SQUARE", "ELLIPSE", "ROUNDED_RECTANGLE", "DIAMOND", "TRIANGLE_UP", "TRIANGLE_DOWN", "PARALLELOGRAM_RIGHT",
+            "PARALLELOGRAM_LEFT", "ENG_DATABASE", "ENG_QUEUE", "ENG_FILE", "ENG_FOLDER", "TRAPEZOID", "PREDEFINED_PROCESS",
+            "SHIELD", "DOCUMENT_SINGLE", "DOCUMENT_MULTIPLE", "MANUAL_INPUT", "HEXAGON", "CHEVRON", "PENTAGON", "OCTAGON",
+            "STAR", "PLUS", "ARROW_LEFT", "ARROW_RIGHT", "SUMMING_JUNCTION", "OR", "SPEECH_BUBBLE", "INTERNAL_STORAGE",
+          ],
+        },
+        text: { type: "string" },
+        color: { type: "string" },
+        name: { type: "string" },
+        x: { type: "number" },
+        y: { type: "number" },
+        width: { type: "number" },
+        height: { type: "number" },
+      },
+    },
+  },
+  {
+    name: "create_connector",
+    description: "FigJam: connect two nodes with a line that follows them when moved. Optional text label.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        startNodeId: { type: "string" },
+        endNodeId: { type: "string" },
+        startMagnet: { type: "string", enum: ["AUTO", "TOP", "BOTTOM", "LEFT", "RIGHT", "CENTER", "NONE"] },
+        endMagnet: { type: "string", enum: ["AUTO", "TOP", "BOTTOM", "LEFT", "RIGHT", "CENTER", "NONE"] },
+        lineType: { type: "string", enum: ["ELBOWED", "STRAIGHT", "CURVED"] },
+        startCap: { type: "string", enum: ["NONE", "ARROW_EQUILATERAL", "ARROW_LINES", "TRIANGLE_FILLED", "DIAMOND_FILLED", "CIRCLE_FILLED"] },
+        endCap: { type: "string", enum: ["NONE", "ARROW_EQUILATERAL", "ARROW_LINES", "TRIANGLE_FILLED", "DIAMOND_FILLED", "CIRCLE_FILLED"] },
+        color: { type: "string", description: "Hex or { r, g, b }." },
+        strokeWeight: { type: "number" },
+        text: { type: "string" },
+        name: { type: "string" },
+      },
+      required: ["startNodeId", "endNodeId"],
+    },
+  },
+  {
+    name: "create_section",
+    description:
+      "Add a section to group content. Pass nodeIds to move existing nodes in; the section then wraps them with padding unless x/y/width/height are given.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...TARGET_PROPERTIES,
+        name: { type: "string" },
+        nodeIds: { type: "array", items: { type: "string" } },
+        padding: { type: "number", description: "Space around wrapped nodes (default 40)." },
+        color: { type: "string" },
+        x: { type: "number" },
+        y: { type: "number" },
+        width: { type: "number" },
+        height: { type: "number" },
+      },
+    },
+  },
+  {
+    name: "create_table",
+    description: "FigJam: add a table. cells is an array of rows of strings; rows/columns default to its size.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...TARGET_PROPERTIES,
+        cells: { type: "array", items: { type: "array", items: { type: "string" } } },
+        rows: { type: "number" },
+        columns: { type: "number" },
+        name: { type: "string" },
+        x: { type: "number" },
+        y: { type: "number" },
+      },
+    },
+  },
+  {
+    name: "add_reaction",
+    description:
+      "Add a prototype interaction to nodeId (or the selection): a trigger plus an action. NAVIGATE and OVERLAY go to a top-level frame (destinationId); SWAP, SCROLL_TO and CHANGE_TO target any node; BACK, CLOSE and URL need no destination. Appends to existing reactions unless replace is true.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        nodeId: { type: "string" },
+        action: { type: "string", enum: ["NAVIGATE", "OVERLAY", "SWAP", "SCROLL_TO", "CHANGE_TO", "BACK", "CLOSE", "URL"] },
+        destinationId: { type: "string" },
+        url: { type: "string" },
+        openInNewTab: { type: "boolean" },
+        resetScrollPosition: { type: "boolean" },
+        replace: { type: "boolean" },
+        ...TRANSITION_PROPERTIES,
+      },
+    },
+  },
+  {
+    name: "clear_reactions",
+    description: "Remove prototype reactions from nodeId (or the selection); pass trigger to remove only those.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        nodeId: { type: "string" },
+        trigger: TRANSITION_PROPERTIES.trigger,
+      },
+    },
+  },
+  {
+    name: "create_flow",
+    description:
+      "Wire a multi-screen prototype in one call: each screen's hotspot (a button id, or the whole frame) navigates to the next screen, and the first screen becomes a named flow starting point. E.g. signup -> onboarding -> dashboard with transition SMART_ANIMATE.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Flow name (defaults to the first frame's name)." },
+        screens: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: { frameId: { type: "string" }, hotspotId: { type: "string" } },
+            required: ["frameId"],
+          },
+        },
+        replace: { type: "boolean", description: "Replace existing reactions on the hotspots." },
+        ...TRANSITION_PROPERTIES,
+      },
+      required: ["screens"],
+    },
+  },
+  {
+    name: "set_flow_starting_point",
+    description: "Add (or with remove: true, remove) a top-level frame as a named prototype flow starting point.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        nodeId: { type: "string" },
+        name: { type: "string" },
+        remove: { type: "boolean" },
+      },
+      required: ["nodeId"],
+    },
+  },
+  {
+    name: "set_scroll_behavior",
+    description:
+      "Set prototype scrolling on a frame: overflowDirection, how many leading children stay fixed while scrolling (numberOfFixedChildren), and clipsContent.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        nodeId: { type: "string" },
+        overflowDirection: { type: "string", enum: ["NONE", "HORIZONTAL", "VERTICAL", "BOTH"] },
+        numberOfFixedChildren: { type: "number" },
+        clipsContent: { type: "boolean" },
+      },
+    },
+  },
+  {
+    name: "export_node",
+    description:
+      "Export a node as PNG, JPG, SVG or PDF. PNG/JPG come back as an image you can look at; outputPath also writes the file on the server machine (relative to the server's file root, FIGSOR_FILE_ROOT or its working directory; paths outside it are rejected).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        nodeId: { type: "string" },
+        format: { type: "string", enum: ["PNG", "JPG", "SVG", "PDF"] },
+        scale: { type: "number", description: "PNG/JPG scale factor (0.01-4, default 1)." },
+        width: { type: "number", description: "PNG/JPG: export at this pixel width instead of scale." },
+        height: { type: "number", description: "PNG/JPG: export at this pixel height instead of scale." },
+        contentsOnly: { type: "boolean" },
+        useAbsoluteBounds: { type: "boolean" },
+        svgOutlineText: { type: "boolean" },
+        outputPath: { type: "string", description: "File path to write, e.g. assets/hero.png." },
+        overwrite: { type: "boolean", description: "Replace outputPath if it already exists (default false)." },
+      },
+    },
+  },
+  {
+    name: "find_nodes",
+    description:
+      "Search nodes on the current page (or every page with allPages, or under rootId) by name glob (\"Button*\") or nameRegex, node types, text content, solid fill color, or component origin (instances of componentId/componentName). Results are paginated with offset/limit and return ids usable as nodeId.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Case-insensitive glob with * and ?." },
+        nameRegex: { type: "string" },
+        types: { type: "array", items: { type: "string" }, description: "e.g. [\"TEXT\", \"INSTANCE\", \"FRAME\"]." },
+        text: { type: "string", description: "Case-insensitive substring of text content." },
+        textRegex: { type: "string" },
+        fillColor: COLOR_SCHEMA,
+        colorTolerance: { type: "number", description: "Per-channel 0-1 tolerance for fillColor (default 0.02)." },
+        componentId: { type: "string" },
+        componentName: { type: "string" },
+        rootId: { type: "string" },
+        allPages: { type: "boolean" },
+        limit: { type: "number" },
+        offset: { type: "number" },
+      },
+    },
+  },
+  {
+    name: "list_pages",
+    description: "List pages in the document with ids, names and which one is current.",
+    inputSchema: { type: "object", properties: {} },
+  },
+  {
+    name: "create_page",
+    description: "Create a page, e.g. Components, Mobile or Desktop. switchTo makes it the current page.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        index: { type: "number" },
+        switchTo: { type: "boolean" },
+      },
+      required: ["name"],
+    },
+  },
+  {
+    name: "rename_page",
+    description: "Rename a page by pageId (defaults to the current page).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        pageId: { type: "string" },
+        name: { type: "string" },
+      },
+      required: ["name"],
+    },
+  },
+  {
+    name: "set_current_page",
+    description: "Switch the designer's current page by pageId or pageName.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        pageId: { type: "string" },
+        pageName: { type: "string" },
+      },
+    },
+  },
+  {
+    name: "get_selection",
+    description: "Get current selection in Figma.",
+    inputSchema: { type: "object", properties: {} },
+  },
+  {
+    name: "get_editor_info",
+    description: "Report which editor the plugin runs in (figma for design files, figjam for boards); FigJam only offers board tools such as create_sticky and create_connector.",
+    inputSchema: { type: "object", properties: {} },
+  },
+  {
+    name: "create_instance",
+    description:
+      "Place an instance of a component by componentId, componentName or published componentKey. For a variant set, pick the variant with variant: { Size: \"Large\" }. properties and overrides work as in set_instance_properties.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...TARGET_PROPERTIES,
+        ...LAYOUT_CHILD_PROPERTIES,
+        componentId: { type: "string" },
+        componentName: { type: "string" },
+        componentKey: { type: "string" },
+        variant: { type: "object", description: "Variant property values, e.g. { State: \"Hover\" }." },
+        name: { type: "string" },
+        x: { type: "number" },
+        y: { type: "number" },
+        width: { type: "number" },
+        height: { type: "number" },
+        properties: INSTANCE_PROPERTIES_SCHEMA,
+        overrides: INSTANCE_OVERRIDES_SCHEMA,
+      },
+    },
+  },
+  {
+    name: "combine_as_variants",
+    description:
+      "Combine components into a variant set. Name the components like \"Size=Large, State=Hover\" first so Figma derives the variant properties.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        componentIds: { type: "array", items: { type: "string" } },
+        name: { type: "string" },
+        parentId: { type: "string" },
+      },
+      required: ["componentIds"],
+    },
+  },
+  {
+    name: "add_component_property",
+    description:
+      "Add a BOOLEAN, TEXT or INSTANCE_SWAP property to a component or variant set. targetNodeId binds it to a layer inside: BOOLEAN to visibility, TEXT to characters, INSTANCE_SWAP to a nested instance.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        nodeId: { type: "string" },
+        propertyName: { type: "string" },
+        type: { type: "string", enum: ["BOOLEAN", "TEXT", "INSTANCE_SWAP"] },
+        defaultValue: {
+          type: ["string", "boolean"],
+          description: "Boolean for BOOLEAN, text for TEXT, component id for INSTANCE_SWAP.",
+        },
+        defaultComponentName: { type: "string", description: "INSTANCE_SWAP default by component name." },
+        targetNodeId: { type: "string" },
+      },
+      required: ["propertyName", "type"],
+    },
+  },
+  {
+    name: "set_instance_properties",
+    description:
+      "Set component property values on an instance, swap its main component, or override nested layers (text, fills, visibility).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        nodeId: { type: "string" },
+        properties: INSTANCE_PROPERTIES_SCHEMA,
+        overrides: INSTANCE_OVERRIDES_SCHEMA,
+        swapComponentId: { type: "string" },
+      },
+    },
+  },
+  {
+    name: "create_vector",
+    description:
+      "Create a vector from SVG path data (path or paths) or a Figma vectorNetwork. width/height scale it uniformly; style with fills/strokes like other create tools.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...TARGET_PROPERTIES,
+        ...LAYOUT_CHILD_PROPERTIES,
+        ...PAINT_PROPERTIES,
+        name: { type: "string" },
+        path: { type: "string", description: "SVG path data, e.g. \"M 0 0 L 24 12 L 0 24 Z\"." },
+        paths: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              data: { type: "string" },
+              windingRule: { type: "string", enum: ["NONZERO", "EVENODD"] },
+            },
+          },
+        },
+        windingRule: { type: "string", enum: ["NONZERO", "EVENODD"] },
+        vectorNetwork: { type: "object", description: "{ vertices, segments, regions } as in the Figma plugin API." },
+        x: { type: "number" },
+        y: { type: "number" },
+        width: { type: "number" },
+        height: { type: "number" },
+      },
+    },
+  },
+  {
+    name: "import_svg",
+    description:
+      "Import SVG markup (svg) or an .svg file under the server's file root (filePath) as editable layers. Use for icons, logos and illustrations.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...TARGET_PROPERTIES,
+        ...LAYOUT_CHILD_PROPERTIES,
+        svg: { type: "string" },
+        filePath: { type: "string" },
+        name: { type: "string" },
+        x: { type: "number" },
+        y: { type: "number" },
+        width: { type: "number" },
+        height: { type: "number" },
+      },
+    },
+  },
+  {
+    name: "place_image",
+    description:
+      "Place a PNG, JPG or GIF from a file on the server machine (filePath) or base64 data. Creates an image rectangle sized to the image (or width/height, keeping aspect ratio when only one is given), or sets the image as the fill of nodeId.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...TARGET_PROPERTIES,
+        ...LAYOUT_CHILD_PROPERTIES,
+        ...IMAGE_PROPERTIES,
+        nodeId: { type: "string", description: "Existing node to fill with the image instead of creating one." },
+        name: { type: "string" },
+        x: { type: "number" },
+        y: { type: "number" },
+        width: { type: "number" },
+        height: { type: "number" },
+        cornerRadius: { type: "number" },
+      },
+    },
+  },
+  {
+    name: "boolean_operation",
+    description:
+      "Combine two or more shapes (nodeIds, or the selection) with UNION, SUBTRACT, INTERSECT or EXCLUDE. SUBTRACT removes the upper shapes from the bottom one.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        nodeIds: { type: "array", items: { type: "string" } },
+        operation: { type: "string", enum: ["UNION", "SUBTRACT", "INTERSECT", "EXCLUDE"] },
+        name: { type: "string" },
+      },
+      required: ["operation"],
+    },
+  },
+  {
+    name: "flatten_nodes",
+    description: "Flatten nodes (nodeIds, or the selection) into a single vector.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        nodeIds: { type: "array", items: { type: "string" } },
+        name: { type: "string" },
+      },
+    },
+  },
+  {
+    name: "create_from_spec",
+    description:
+      "Build a whole subtree in one call from a nested spec. Each node is { type, ...props, children? } where type is frame, component, instance, text, rectangle, ellipse, line, polygon, star, vector or svg and props use the same names as the matching create_* tool (name, width, height, fillR/G/B, cornerRadius, layoutMode, itemSpacing, padding*, text, fontSize, fontFamily, fontStyle...). Props may also be nested under a props key. Image fills may use filePath and svg nodes may take a filePath instead of svg markup.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        spec: {
+          type: "object",
+          description: "Root node, e.g. { type: \"frame\", name: \"Card\", layoutMode: \"VERTICAL\", children: [{ type: \"text\", text: \"Title\" }] }.",
+        },
+        ...TARGET_PROPERTIES,
+        ...LAYOUT_CHILD_PROPERTIES,
+      },
+      required: ["spec"],
+    },
+  },
+  {
+    name: "batch",
+    description:
+      "Run an ordered list of tool calls in one plugin round trip. Later steps can reference earlier results with strings like \"$step1.id\" (1-based), e.g. parentId: \"$step1.id\". If any step fails, every node created by the batch is removed and the call fails with the step number and its error.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        steps: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              tool: { type: "string" },
+              params: { type: "object" },
+            },
+            required: ["tool"],
+          },
+        },
+      },
+      required: ["steps"],
+    },
+  },
+  {
+    name: "undo_last_turn",
+    description:
+      "Revert the most recent plugin chat turn: removes the nodes, variables, styles and pages it created and restores the nodes, pages and styles it changed (properties, variable bindings and modes, instance properties, component property definitions, flow starting points, paint and text style values). Nodes it deleted are listed but not recreated. MCP calls made while the turn ran are not part of it.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        turnId: { type: "string", description: "Only undo if this is still the most recent turn." },
+      },
+    },
+  },
+  {
+    name: "audit_design",
+    description:
+      "Lint nodeId (or the selection, or the whole page) against docs/design-tokens.md: solid fills outside the zinc/blue palette, font sizes off the 12-72 type scale, corner radii other than 4/6/8/12/16/9999, and auto-layout gaps (8/12/16/24) or padding (8/16/24/32) off the scale. Each violation names the nearest token. Set fix: true to snap values to it. Style- and variable-bound values are skipped.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        nodeId: { type: "string" },
+        fix: { type: "boolean", description: "Snap every violation to its suggested token." },
+        checks: {
+          type: "array",
+          items: { type: "string", enum: ["fills", "fontSize", "cornerRadius", "spacing", "padding"] },
+          description: "Subset of checks to run (default all).",
+        },
+        colorTolerance: { type: "number", description: "Max 0-1 channel difference still counted as on-token (default 0.01)." },
+        maxNodes: { type: "number", description: "Nodes to walk (1-10000, default 2000)." },
+        limit: { type: "number", description: "Violations to return (default 200); counts always cover all." },
+      },
+    },
+  },
+  {
+    name: "audit_accessibility",
+    description:
+      "WCAG check of nodeId (or the selection, or the whole page). Text: contrast ratio against the effective background (page plus ancestor fills), AA/AAA pass or fail with the large-text thresholds, and text under 12px. Interactive-looking nodes (buttons, links, inputs, toggles, or anything with prototype reactions) under 44x44 are flagged. annotate: true draws outlines and labels for failures on a locked \"Accessibility audit\" layer, replacing the previous one.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        nodeId: { type: "string" },
+        level: { type: "string", enum: ["AA", "AAA"], description: "Contrast level used for failures and annotations (default AA)." },
+        annotate: { type: "boolean" },
+        failuresOnly: { type: "boolean" },
+        maxNodes: { type: "number", description: "Nodes to walk (1-10000, default 2000)." },
+        limit: { type: "number", description: "Results to return (default 200); the summary always covers all." },
+      },
+    },
+  },
+  {
+    name: "list_agent_nodes",
+    description:
+      "List nodes created or modified by CursorCanvas, with provenance (turnId, provider, model, tool, timestamp) read from shared plugin data (namespace \"cursorcanvas\", key \"provenance\"). Filter by turnId, provider, model, tool or action. Searches the current page unless rootId or allPages is given.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...PROVENANCE_FILTER_PROPERTIES,
+        limit: { type: "number", description: "Page size (1-500, default 50)." },
+        offset: { type: "number" },
+      },
+    },
+  },
+  {
+    name: "strip_provenance",
+    description:
+      "Remove CursorCanvas provenance metadata from nodeIds (optionally with their children), or from every stamped node matching the filters.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        nodeIds: { type: "array", items: { type: "string" } },
+        includeChildren: { type: "boolean" },
+        ...PROVENANCE_FILTER_PROPERTIES,
+      },
+    },
+  },
+  {
+    name: "get_node_tree",
+    description:
+      "Read the node tree of nodeId (or the current page when omitted) as JSON: geometry, fills, strokes, text and font, auto-layout, corner radius and component linkage. Use before placing new content to see what already exists.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        nodeId: { type: "string" },
+        maxDepth: { type: "number", description: "Levels of children to include (1-12, default 4)." },
+        maxNodes: { type: "number", description: "Maximum nodes to serialize (1-2000, default 250)." },
+      },
+    },
+  },
+  {
+    name: "generate_code",
+    description:
+      "Convert a Figma node (nodeId, or the current selection) into front-end code: React + Tailwind (default) or HTML/CSS. Auto-layout becomes flex with gap, padding and alignment; fills, strokes, radius, shadows and text styles become classes, using token names from docs/design-tokens.md (bg-primary, text-muted-foreground, border-border, rounded-md, text-sm) when values match. Vectors and image fills come out as sized boxes listed in warnings.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        nodeId: { type: "string", description: "Node to convert. Defaults to the first selected node." },
+        format: { type: "string", enum: ["react", "html"], description: "react (JSX + Tailwind, default) or html (markup + CSS)." },
+        componentName: { type: "string", description: "React component name. Defaults to the node name in PascalCase." },
+      },
+    },
+  },
+  {
+    name: "import_markup",
+    description:
+      "Build a Figma frame tree from an HTML or JSX snippet (or a component file via filePath) styled with Tailwind classes or inline styles. flex/flex-col and block elements become auto-layout, gap/space/padding, colors (the default Tailwind palette plus token classes like bg-primary, text-muted-foreground), borders, radius, shadows and text classes map to Figma values, and text becomes text nodes. JSX expressions, component props and responsive/hover variants are not evaluated; unsupported classes are listed in warnings.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        markup: { type: "string", description: "HTML or JSX source. A whole component file works; the first returned element tree is used." },
+        filePath: {
+          type: "string",
+          description:
+            "File under the server's file root to read the markup from instead of markup: .html, .htm, .jsx, .tsx, .js, .ts, .vue or .svelte, up to 512 KB.",
+        },
+        width: { type: "number", description: "Width of a block-level root frame (default 400)." },
+        name: { type: "string", description: "Name of the root frame." },
+        x: { type: "number" },
+        y: { type: "number" },
+        ...TARGET_PROPERTIES,
+      },
+    },
+  },
+  {
+    name: "get_figma_prompt",
+    description: "Get and clear the latest prompt saved from the plugin.",
+    inputSchema: { type: "object", properties: {} },
+  },
+];
+
+// Server-side tools that only work where the plugin tool they call is available.
+const SERVER_TOOL_DEPENDENCIES: Record<string, string> = { import_markup: "create_from_spec" };
+
+// The plugin reports which tools its editor lacks; until it connects, every tool is listed.
+function availableTools(): ToolSpec[] {
+  return TOOL_SPECS.filter((tool) => {
+    const pluginTool = SERVER_TOOL_DEPENDENCIES[tool.name] ?? tool.name;
+    return !pluginUnavailableTools.has(pluginTool);
+  });
+}
+
+function openAITools(): JsonObject[] {
+  return availableTools()
+    // undo_last_turn would revert the chat's own earlier turns from inside a turn; it stays a UI and MCP action.
+    .filter((tool) => tool.name !== "get_figma_prompt" && tool.name !== "undo_last_turn")
+    .map((tool) => ({
+      type: "function",
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.inputSchema,
+    }));
+}
+
+const LIVE_CHANGE_HISTORY = 50;
+const LIVE_RESOURCES = [
+  {
+    uri: "figma://selection",
+    name: "Figma selection",
+    description: "Nodes currently selected in Figma (id, name, type, geometry). Updates as the designer clicks around.",
+    mimeType: "application/json",
+  },
+  {
+    uri: "figma://current-page",
+    name: "Figma current page",
+    description: "The page open in Figma.",
+    mimeType: "application/json",
+  },
+  {
+    uri: "figma://document-changes",
+    name: "Figma document changes",
+    description:
+      "Recent debounced edit summaries, newest last. Each node carries its source: agent (nodes CursorCanvas tools created or changed), designer (other local edits) or collaborator (remote edits); bySource counts every change and source is mixed when a summary has several.",
+    mimeType: "application/json",
+  },
+];
+
+const PLUGIN_TIMEOUT_MS = 20000;
+const BATCH_TIMEOUT_MS = 120000;
+const LONG_RUNNING_TOOLS = new Set(["batch", "create_from_spec", "export_node", "place_image"]);
+
+const LOCAL_SYSTEM_PROMPT =
+  "You are CursorCanvas Local. Execute design requests directly in Figma using available tools and return concise status.";
+
+let pluginSocket: WebSocket | null = null;
+const pending = new Map<string, { resolve: (v: unknown) => void; reject: (e: Error) => void }>();
+const httpCommandQueue: Array<{
+  id: string;
+  tool: string;
+  params: JsonObject;
+  timeoutMs: number;
+  deadline: number;
+  turnId?: string;
+}> = [];
+let waitingGetRes: http.ServerResponse | null = null;
+let lastFigmaPrompt: string | null = null;
+let pluginEditorType: string | null = null;
+let pluginUnavailableTools = new Set<string>();
+const liveState: {
+  selection: unknown;
+  currentPage: unknown;
+  documentChanges: JsonObject[];
+  updatedAt: string | null;
+} = { selection: null, currentPage: null, documentChanges: [], updatedAt: null };
+const resourceSubscriptions = new Set<string>();
+
+let wss: WebSocketServer | null = null;
+let activeWsPort = FIGSOR_PORT_INIT;
+let activeHttpPort = FIGSOR_PORT_INIT + 1;
+
+function writeJson(res: http.ServerResponse, status: number, payload: unknown): void {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+  });
+  res.end(JSON.stringify(payload));
+}
+
+function liveResourceValue(uri: string): unknown {
+  if (uri === "figma://selection") return liveState.selection;
+  if (uri === "figma://current-page") return liveState.currentPage;
+  if (uri === "figma://document-changes") return liveState.documentChanges;
+  throw new Error(`Unknown resource: ${uri}`);
+}
+
+function notifyResourceUpdated(uri: string): void {
+  if (!resourceSubscriptions.has(uri)) return;
+  void mcpServer.sendResourceUpdated({ uri }).catch(() => undefined);
+}
+
+function applyPluginEvent(event: string, data: unknown): void {
+  liveState.updatedAt = new Date().toISOString();
+  if (event === "selection") {
+    liveState.selection = data;
+    notifyResourceUpdated("figma://selection");
+  } else if (event === "page") {
+    liveState.currentPage = data;
+    notifyResourceUpdated("figma://current-page");
+  } else if (event === "document" && data != null && typeof data === "object") {
+    liveState.documentChanges.push({ ...(data as JsonObject), receivedAt: liveState.updatedAt });
+    if (liveState.documentChanges.length > LIVE_CHANGE_HISTORY) liveState.documentChanges.shift();
+    notifyResourceUpdated("figma://document-changes");
+  }
+}
+
+// Unsolicited plugin messages (not command results), from the WebSocket or POST /plugin-message.
+function handlePluginMessage(msg: {
+  type?: string;
+  editorType?: string;
+  unavailableTools?: unknown;
+  event?: string;
+  data?: unknown;
+}): boolean {
+  if (msg.type === "plugin_info" && typeof msg.editorType === "string") {
+    const unavailable = Array.isArray(msg.unavailableTools)
+      ? msg.unavailableTools.filter((tool): tool is string => typeof tool === "string")
+      : [];
+    setPluginInfo(msg.editorType, unavailable);
+    return true;
+  }
+  if (msg.type === "plugin_event" && typeof msg.event === "string") {
+    applyPluginEvent(msg.event, msg.data);
+    return true;
+  }
+  return false;
+}
+
+function setPluginInfo(editorType: string, unavailableTools: string[]): void {
+  const unavailable = new Set(unavailableTools);
+  const unchanged = unavailable.size === pluginUnavailableTools.size
+    && [...unavailable].every((tool) => pluginUnavailableTools.has(tool));
+  pluginEditorType = editorType;
+  if (unchanged) return;
+  pluginUnavailableTools = unavailable;
+  void mcpServer.sendToolListChanged().catch(() => undefined);
+}
+
+function pluginBridgeReady(): boolean {
+  return (pluginSocket != null && pluginSocket.readyState === 1) || waitingGetRes != null;
+}
+
+function parseJsonSafe<T>(body: string, fallback: T): T {
+  try {
+    return JSON.parse(body) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk;
+    });
+    req.on("end", () => resolve(body));
+  });
+}
+
+function makeRequestId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function probePort(port: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const tester = net.createServer();
+    tester.unref();
+    tester.once("error", () => resolve(false));
+    tester.listen(port, "127.0.0.1", () => {
+      tester.close(() => resolve(true));
+    });
+  });
+}
+
+function pluginTimeoutFor(tool: string): number {
+  return LONG_RUNNING_TOOLS.has(tool) ? BATCH_TIMEOUT_MS : PLUGIN_TIMEOUT_MS;
+}
+
+// turnId tags commands issued by a plugin chat turn so the plugin records them for undo_last_turn.
+// Commands carry their deadline so the plugin can skip ones still queued after this timer gave up.
+function sendToPlugin(id: string, tool: string, params: JsonObject, turnId?: string): Promise<unknown> {
+  const timeoutMs = pluginTimeoutFor(tool);
+  const deadline = Date.now() + timeoutMs;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    setTimeout(() => {
+      if (pending.has(id)) {
+        pending.delete(id);
+        reject(new Error("Plugin timeout"));
+      }
+    }, timeoutMs);
+
+    if (pluginSocket && pluginSocket.readyState === 1) {
+      pluginSocket.send(JSON.stringify({ id, tool, params, timeoutMs, deadline, turnId }));
+      return;
+    }
+
+    httpCommandQueue.push({ id, tool, params, timeoutMs, deadline, turnId });
+    if (waitingGetRes) {
+      const cmd = nextHttpCommand();
+      if (cmd) {
+        writeJson(waitingGetRes, 200, cmd);
+        waitingGetRes = null;
+      }
+    }
+  });
+}
+
+// Commands that expired while queued for the poller were already rejected as timed out.
+function nextHttpCommand(): (typeof httpCommandQueue)[number] | undefined {
+  let cmd = httpCommandQueue.shift();
+  while (cmd && cmd.deadline <= Date.now()) cmd = httpCommandQueue.shift();
+  return cmd;
+}
+
+function isExportedAsset(value: unknown): value is ExportedAsset {
+  if (value == null || typeof value !== "object") return false;
+  const asset = value as JsonObject;
+  return typeof asset.base64 === "string" && typeof asset.mimeType === "string";
+}
+
+// Tool file paths are confined to this root so a prompt cannot read or write elsewhere on the machine.
+const FILE_ROOT = path.resolve(process.env.FIGSOR_FILE_ROOT ?? process.cwd());
+
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative !== ".." && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+async function resolveLocalPath(filePath: string): Promise<string> {
+  const target = path.resolve(FILE_ROOT, filePath);
+  // Check the deepest existing ancestor with symlinks followed, so a link cannot lead back out of the root.
+  let existing = target;
+  while (!fs.existsSync(existing) && path.dirname(existing) !== existing) existing = path.dirname(existing);
+  const realRoot = await fs.promises.realpath(FILE_ROOT);
+  if (!isInside(FILE_ROOT, target) || !isInside(realRoot, await fs.promises.realpath(existing))) {
+    throw new Error(`${filePath} is outside ${FILE_ROOT}; only paths under the server's file root are allowed.`);
+  }
+  return target;
+}
+
+async function writeExportedAsset(asset: ExportedAsset, outputPath: string, overwrite: boolean): Promise<string> {
+  const target = await resolveLocalPath(outputPath);
+  await fs.promises.mkdir(path.dirname(target), { recursive: true });
+  try {
+    await fs.promises.writeFile(target, Buffer.from(asset.base64, "base64"), { flag: overwrite ? "w" : "wx" });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "EEXIST") {
+      throw new Error(`${outputPath} already exists; pass overwrite: true to replace it.`);
+    }
+    throw err;
+  }
+  return target;
+}
+
+const IMAGE_EXTENSIONS = new Set([".png", ".jpg", ".jpeg", ".gif"]);
+
+async function readImageFile(filePath: string): Promise<string> {
+  if (!IMAGE_EXTENSIONS.has(path.extname(filePath).toLowerCase())) {
+    throw new Error(`Unsupported image file ${filePath}: use PNG, JPG or GIF.`);
+  }
+  const bytes = await fs.promises.readFile(await resolveLocalPath(filePath));
+  return bytes.toString("base64");
+}
+
+async function readSvgFile(filePath: string): Promise<string> {
+  if (path.extname(filePath).toLowerCase() !== ".svg") {
+    throw new Error(`Unsupported file ${filePath}: SVG imports only read .svg files.`);
+  }
+  return fs.promises.readFile(await resolveLocalPath(filePath), "utf8");
+}
+
+async function inlineImagePaints(paints: unknown): Promise<unknown> {
+  if (!Array.isArray(paints)) return paints;
+  return Promise.all(
+    paints.map(async (paint) => {
+      if (paint == null || typeof paint !== "object") return paint;
+      const { filePath, ...rest } = paint as JsonObject;
+      if (typeof filePath !== "string" || !filePath.trim()) return paint;
+      return { ...rest, base64: await readImageFile(filePath.trim()) };
+    })
+  );
+}
+
+async function inlinePaintParams(params: JsonObject): Promise<JsonObject> {
+  if (!Array.isArray(params.fills) && !Array.isArray(params.strokes)) return params;
+  return {
+    ...params,
+    ...(params.fills !== undefined ? { fills: await inlineImagePaints(params.fills) } : {}),
+    ...(params.strokes !== undefined ? { strokes: await inlineImagePaints(params.strokes) } : {}),
+  };
+}
+
+// Spec nodes carry props inline or under props; svg nodes may point at a file instead of markup.
+async function inlineSpecFiles(spec: unknown): Promise<unknown> {
+  if (spec == null || typeof spec !== "object" || Array.isArray(spec)) return spec;
+  let node = await inlinePaintParams(spec as JsonObject);
+  if (node.props != null && typeof node.props === "object" && !Array.isArray(node.props)) {
+    node = { ...node, props: await inlinePaintParams(node.props as JsonObject) };
+  }
+  const filePath = typeof node.filePath === "string" ? node.filePath.trim() : "";
+  if (filePath && node.type === "svg") {
+    const { filePath: _filePath, ...rest } = node;
+    node = { ...rest, svg: await readSvgFile(filePath) };
+  }
+  if (Array.isArray(node.children)) {
+    node = { ...node, children: await Promise.all(node.children.map(inlineSpecFiles)) };
+  }
+  return node;
+}
+
+// Tools that take a local file path get the file contents inlined, since the plugin sandbox cannot read disk.
+async function prepareToolParams(tool: string, params: JsonObject): Promise<JsonObject> {
+  params = await inlinePaintParams(params);
+  if (tool === "create_from_spec" && params.spec !== undefined) {
+    params = { ...params, spec: await inlineSpecFiles(params.spec) };
+  }
+  if (tool === "batch" && Array.isArray(params.steps)) {
+    const steps = await Promise.all(
+      params.steps.map(async (step: unknown) => {
+        if (step == null || typeof step !== "object") return step;
+        const { tool: stepTool, params: stepParams } = step as JsonObject;
+        if (typeof stepTool !== "string" || stepParams == null || typeof stepParams !== "object") return step;
+        return { ...(step as JsonObject), params: await prepareToolParams(stepTool, stepParams as JsonObject) };
+      })
+    );
+    params = { ...params, steps };
+  }
+
+  const filePath = typeof params.filePath === "string" ? params.filePath.trim() : "";
+  if (!filePath) return params;
+
+  if (tool === "import_svg") {
+    const { filePath: _filePath, ...rest } = params;
+    const svg = await readSvgFile(filePath);
+    return { name: path.basename(filePath, path.extname(filePath)), ...rest, svg };
+  }
+  if (tool === "place_image") {
+    const { filePath: _filePath, ...rest } = params;
+    const base64 = await readImageFile(filePath);
+    return { name: path.basename(filePath, path.extname(filePath)), ...rest, base64 };
+  }
+  return params;
+}
+
+// Design-to-code: get_node_tree output rendered as React + Tailwind or HTML/CSS.
+const CODE_FORMATS = ["react", "html"];
+
+interface CodeNode {
+  id: string;
+  name: string;
+  type: string;
+  visible?: boolean;
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  opacity?: number;
+  fills?: unknown;
+  strokes?: JsonObject[];
+  strokeWeight?: unknown;
+  effects?: JsonObject[];
+  cornerRadius?: unknown;
+  characters?: string;
+  fontName?: unknown;
+  fontSize?: unknown;
+  lineHeight?: unknown;
+  textAlignHorizontal?: string;
+  textAutoResize?: string;
+  layoutMode?: string;
+  itemSpacing?: number;
+  counterAxisSpacing?: number;
+  padding?: { top: number; right: number; bottom: number; left: number };
+  primaryAxisAlignItems?: string;
+  counterAxisAlignItems?: string;
+  primaryAxisSizingMode?: string;
+  counterAxisSizingMode?: string;
+  layoutWrap?: string;
+  layoutSizingHorizontal?: string;
+  layoutSizingVertical?: string;
+  layoutPositioning?: string;
+  children?: CodeNode[];
+}
+
+interface CodeColor {
+  hex: string;
+  alpha: number;
+}
+
+interface CodeStyle {
+  direction?: "row" | "column";
+  wrap?: boolean;
+  gap?: number;
+  crossGap?: number;
+  justify?: string;
+  align?: string;
+  padding?: [number, number, number, number];
+  width?: number;
+  height?: number;
+  grow?: boolean;
+  stretch?: boolean;
+  noShrink?: boolean;
+  relative?: boolean;
+  left?: number;
+  top?: number;
+  background?: CodeColor;
+  gradient?: string;
+  color?: CodeColor;
+  borderWidth?: number;
+  borderColor?: CodeColor;
+  radius?: number;
+  shadow?: string;
+  opacity?: number;
+  fontFamily?: string;
+  fontSize?: number;
+  fontWeight?: number;
+  lineHeight?: number;
+  textAlign?: string;
+}
+
+interface CodeContext {
+  format: string;
+  warnings: string[];
+  usedTokens: Set<string>;
+  classNames: Set<string>;
+  cssRules: string[];
+}
+
+interface GeneratedCode {
+  format: string;
+  componentName?: string;
+  code: string;
+  css?: string;
+  nodeCount: number;
+  truncated: boolean;
+  warnings: string[];
+}
+
+// Semantic names from docs/design-tokens.md, per role; other colors fall back to the Tailwind palette.
+const SEMANTIC_COLORS: Record<"bg" | "text" | "border", Record<string, string>> = {
+  bg: { "#fafafa": "background", "#3b82f6": "primary", "#f4f4f5": "muted", "#ef4444": "destructive" },
+  text: {
+    "#0e0e1b": "foreground",
+    "#71717a": "muted-foreground",
+    "#fafaff": "primary-foreground",
+    "#3b82f6": "primary",
+    "#ef4444": "destructive",
+  },
+  border: { "#e4e4e7": "border", "#3b82f6": "primary" },
+};
+
+const TOKEN_VALUES: Record<string, string> = {
+  background: "#fafafa",
+  foreground: "#0e0e1b",
+  primary: "#3b82f6",
+  "primary-foreground": "#fafaff",
+  muted: "#f4f4f5",
+  "muted-foreground": "#71717a",
+  border: "#e4e4e7",
+  destructive: "#ef4444",
+};
+
+const PALETTE_COLORS: Record<string, string> = {
+  "#ffffff": "white",
+  "#000000": "black",
+  "#fafafa": "zinc-50",
+  "#f4f4f5": "zinc-100",
+  "#e4e4e7": "zinc-200",
+  "#d4d4d8": "zinc-300",
+  "#a1a1aa": "zinc-400",
+  "#71717a": "zinc-500",
+  "#52525b": "zinc-600",
+  "#3f3f46": "zinc-700",
+  "#27272a": "zinc-800",
+  "#18181b": "zinc-900",
+  "#09090b": "zinc-950",
+  "#eff6ff": "blue-50",
+  "#dbeafe": "blue-100",
+  "#bfdbfe": "blue-200",
+  "#93c5fd": "blue-300",
+  "#60a5fa": "blue-400",
+  "#3b82f6": "blue-500",
+  "#2563eb": "blue-600",
+  "#1d4ed8": "blue-700",
+  "#1e40af": "blue-800",
+  "#1e3a8a": "blue-900",
+  "#172554": "blue-950",
+  "#ef4444": "red-500",
+};
+
+// Tailwind spacing scale keyed by px.
+const SPACING_SCALE: Record<number, string> = { 1: "px" };
+for (const step of [0, 0.5, 1, 1.5, 2, 2.5, 3, 3.5, 4, 5, 6, 7, 8, 9, 10, 11, 12, 14, 16, 20, 24, 28, 32, 36, 40, 44, 48, 52, 56, 60, 64, 72, 80, 96]) {
+  SPACING_SCALE[step * 4] = String(step);
+}
+
+const FONT_SIZE_CLASSES: Record<number, { name: string; lineHeight: number }> = {
+  12: { name: "xs", lineHeight: 16 },
+  14: { name: "sm", lineHeight: 20 },
+  16: { name: "base", lineHeight: 24 },
+  18: { name: "lg", lineHeight: 28 },
+  20: { name: "xl", lineHeight: 28 },
+  24: { name: "2xl", lineHeight: 32 },
+  30: { name: "3xl", lineHeight: 36 },
+  36: { name: "4xl", lineHeight: 40 },
+  48: { name: "5xl", lineHeight: 48 },
+  60: { name: "6xl", lineHeight: 60 },
+  72: { name: "7xl", lineHeight: 72 },
+};
+
+const FONT_WEIGHT_CLASSES: Record<number, string> = {
+  100: "thin",
+  200: "extralight",
+  300: "light",
+  500: "medium",
+  600: "semibold",
+  700: "bold",
+  800: "extrabold",
+  900: "black",
+};
+
+// Checked in order, so "Extra Light" wins over "Light" and "Semi Bold" over "Bold".
+const FONT_WEIGHT_PATTERNS: Array<[RegExp, number]> = [
+  [/thin|hairline/i, 100],
+  [/extra\s*light|ultra\s*light/i, 200],
+  [/light/i, 300],
+  [/medium/i, 500],
+  [/semi\s*bold|demi\s*bold/i, 600],
+  [/extra\s*bold|ultra\s*bold/i, 800],
+  [/bold/i, 700],
+  [/black|heavy/i, 900],
+];
+
+const RADIUS_CLASSES: Record<number, string> = {
+  2: "rounded-sm",
+  4: "rounded",
+  6: "rounded-md",
+  8: "rounded-lg",
+  12: "rounded-xl",
+  16: "rounded-2xl",
+  24: "rounded-3xl",
+};
+
+const SHADOW_CLASSES: Record<string, string> = {
+  "0px 1px 2px 0px rgba(0,0,0,0.05)": "shadow-sm",
+  "0px 1px 3px 0px rgba(0,0,0,0.1), 0px 1px 2px -1px rgba(0,0,0,0.1)": "shadow",
+  "0px 4px 6px -1px rgba(0,0,0,0.1), 0px 2px 4px -2px rgba(0,0,0,0.1)": "shadow-md",
+  "0px 10px 15px -3px rgba(0,0,0,0.1), 0px 4px 6px -4px rgba(0,0,0,0.1)": "shadow-lg",
+};
+
+const JUSTIFY_VALUES: Record<string, string> = { CENTER: "center", MAX: "flex-end", SPACE_BETWEEN: "space-between" };
+const ALIGN_VALUES: Record<string, string> = { MIN: "flex-start", CENTER: "center", MAX: "flex-end", BASELINE: "baseline" };
+const TAILWIND_JUSTIFY: Record<string, string> = { center: "center", "flex-end": "end", "space-between": "between" };
+const TAILWIND_ALIGN: Record<string, string> = { "flex-start": "start", center: "center", "flex-end": "end", baseline: "baseline" };
+const CONTAINER_TYPES = new Set(["FRAME", "GROUP", "COMPONENT", "COMPONENT_SET", "INSTANCE", "SECTION"]);
+
+function codeNumber(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function codeColor(value: unknown, opacity = 1): CodeColor | undefined {
+  if (value == null || typeof value !== "object") return undefined;
+  const { r, g, b, a } = value as { r?: number; g?: number; b?: number; a?: number };
+  if (typeof r !== "number" || typeof g !== "number" || typeof b !== "number") return undefined;
+  const hex = [r, g, b].map((channel) => Math.round(channel * 255).toString(16).padStart(2, "0")).join("");
+  return { hex: `#${hex}`, alpha: codeNumber((a ?? 1) * opacity) };
+}
+
+function cssColor(color: CodeColor): string {
+  if (color.alpha >= 1) return color.hex;
+  const [r, g, b] = [1, 3, 5].map((start) => parseInt(color.hex.slice(start, start + 2), 16));
+  return `rgba(${r},${g},${b},${color.alpha})`;
+}
+
+function visiblePaints(paints: unknown): JsonObject[] {
+  if (!Array.isArray(paints)) return [];
+  return (paints as JsonObject[]).filter((paint) => paint.visible !== false);
+}
+
+function paintColor(paint: JsonObject): CodeColor | undefined {
+  return codeColor(paint.color, typeof paint.opacity === "number" ? paint.opacity : 1);
+}
+
+function gradientCss(paint: JsonObject): string | undefined {
+  if (!Array.isArray(paint.gradientStops)) return undefined;
+  const stops = (paint.gradientStops as JsonObject[]).map((stop) => {
+    const color = codeColor(stop.color);
+    const position = typeof stop.position === "number" ? Math.round(stop.position * 100) : 0;
+    return color ? `${cssColor(color)} ${position}%` : "";
+  });
+  const kind = paint.type === "GRADIENT_RADIAL" ? "radial-gradient" : "linear-gradient";
+  return `${kind}(${stops.filter(Boolean).join(", ")})`;
+}
+
+function shadowCss(effects: JsonObject[] | undefined): string | undefined {
+  const shadows = (effects ?? [])
+    .filter((effect) => effect.visible !== false && (effect.type === "DROP_SHADOW" || effect.type === "INNER_SHADOW"))
+    .map((effect) => {
+      const color = codeColor(effect.color) ?? { hex: "#000000", alpha: 0.25 };
+      const inset = effect.type === "INNER_SHADOW" ? "inset " : "";
+      const px = (value: unknown) => `${typeof value === "number" ? codeNumber(value) : 0}px`;
+      return `${inset}${px(effect.offsetX)} ${px(effect.offsetY)} ${px(effect.radius)} ${px(effect.spread)} ${cssColor(color)}`;
+    });
+  return shadows.length > 0 ? shadows.join(", ") : undefined;
+}
+
+function fontWeightFromStyle(style: string): number {
+  for (const [pattern, weight] of FONT_WEIGHT_PATTERNS) {
+    if (pattern.test(style)) return weight;
+  }
+  return 400;
+}
+
+function lineHeightPx(value: unknown, fontSize: number | undefined): number | undefined {
+  if (value == null || typeof value !== "object") return undefined;
+  const { unit, value: amount } = value as { unit?: string; value?: number };
+  if (typeof amount !== "number") return undefined;
+  if (unit === "PIXELS") return codeNumber(amount);
+  if (unit === "PERCENT" && fontSize != null) return codeNumber((fontSize * amount) / 100);
+  return undefined;
+}
+
+function layoutDirection(node: CodeNode | null): "row" | "column" | undefined {
+  if (node?.layoutMode === "HORIZONTAL") return "row";
+  if (node?.layoutMode === "VERTICAL") return "column";
+  return undefined;
+}
+
+// FIXED, HUG or FILL along one axis, derived from Figma sizing when the node is not an auto-layout child.
+function axisSizing(node: CodeNode, axis: "horizontal" | "vertical", parentDirection: string | undefined): string {
+  if (parentDirection && node.layoutPositioning !== "ABSOLUTE") {
+    const sizing = axis === "horizontal" ? node.layoutSizingHorizontal : node.layoutSizingVertical;
+    if (sizing) return sizing;
+  }
+  if (node.type === "TEXT") {
+    if (node.textAutoResize === "WIDTH_AND_HEIGHT") return "HUG";
+    return axis === "vertical" && node.textAutoResize === "HEIGHT" ? "HUG" : "FIXED";
+  }
+  const direction = layoutDirection(node);
+  if (!direction) return "FIXED";
+  const primary = (direction === "row") === (axis === "horizontal");
+  const mode = primary ? node.primaryAxisSizingMode : node.counterAxisSizingMode;
+  return mode === "AUTO" ? "HUG" : "FIXED";
+}
+
+function codeStyle(node: CodeNode, parent: CodeNode | null, ctx: CodeContext): CodeStyle {
+  const style: CodeStyle = {};
+  const parentDirection = layoutDirection(parent);
+
+  if (parent && (!parentDirection || node.layoutPositioning === "ABSOLUTE")) {
+    // Group children are positioned in the group's parent space.
+    const offsetX = parent.type === "GROUP" ? parent.x ?? 0 : 0;
+    const offsetY = parent.type === "GROUP" ? parent.y ?? 0 : 0;
+    style.left = codeNumber((node.x ?? 0) - offsetX);
+    style.top = codeNumber((node.y ?? 0) - offsetY);
+  }
+  for (const axis of ["horizontal", "vertical"] as const) {
+    const sizing = axisSizing(node, axis, parentDirection);
+    const size = axis === "horizontal" ? node.width : node.height;
+    if (sizing === "FILL" && parentDirection) {
+      if ((parentDirection === "row") === (axis === "horizontal")) style.grow = true;
+      else style.stretch = true;
+    } else if (sizing === "FIXED" && size != null) {
+      if (axis === "horizontal") style.width = codeNumber(size);
+      else style.height = codeNumber(size);
+      if (parentDirection && (parentDirection === "row") === (axis === "horizontal")) style.noShrink = true;
+    }
+  }
+
+  const direction = layoutDirection(node);
+  if (direction) {
+    style.direction = direction;
+    if (node.layoutWrap === "WRAP") {
+      style.wrap = true;
+      style.crossGap = node.counterAxisSpacing ?? 0;
+    }
+    if (node.primaryAxisAlignItems !== "SPACE_BETWEEN" && node.itemSpacing) style.gap = node.itemSpacing;
+    style.justify = JUSTIFY_VALUES[node.primaryAxisAlignItems ?? ""];
+    style.align = ALIGN_VALUES[node.counterAxisAlignItems ?? ""];
+    const padding = node.padding;
+    if (padding && (padding.top || padding.right || padding.bottom || padding.left)) {
+      style.padding = [padding.top, padding.right, padding.bottom, padding.left];
+    }
+  }
+  if (node.children?.some((child) => !direction || child.layoutPositioning === "ABSOLUTE")) style.relative = true;
+
+  const fills = visiblePaints(node.fills);
+  if (node.fills === "MIXED") ctx.warnings.push(`${node.name}: mixed text fills, used the default color.`);
+  const fill = fills[fills.length - 1];
+  if (fill?.type === "SOLID") {
+    if (node.type === "TEXT") style.color = paintColor(fill);
+    else style.background = paintColor(fill);
+  } else if (fill && String(fill.type).startsWith("GRADIENT_")) {
+    style.gradient = gradientCss(fill);
+  } else if (fill?.type === "IMAGE") {
+    ctx.warnings.push(`${node.name}: image fill left as an empty box; export it with export_node.`);
+  }
+
+  const stroke = visiblePaints(node.strokes).find((paint) => paint.type === "SOLID");
+  if (stroke) {
+    style.borderWidth = typeof node.strokeWeight === "number" ? node.strokeWeight : 1;
+    style.borderColor = paintColor(stroke);
+  }
+  if (node.type === "ELLIPSE") style.radius = 9999;
+  else if (typeof node.cornerRadius === "number" && node.cornerRadius > 0) style.radius = node.cornerRadius;
+  style.shadow = shadowCss(node.effects);
+  if (node.opacity != null && node.opacity < 1) style.opacity = node.opacity;
+
+  if (node.type === "TEXT") {
+    const fontName = node.fontName as { family?: string; style?: string } | "MIXED" | undefined;
+    if (fontName && fontName !== "MIXED") {
+      if (fontName.family && fontName.family !== "Inter") style.fontFamily = fontName.family;
+      style.fontWeight = fontWeightFromStyle(fontName.style ?? "");
+    }
+    if (typeof node.fontSize === "number") style.fontSize = node.fontSize;
+    style.lineHeight = lineHeightPx(node.lineHeight, style.fontSize);
+    const align = node.textAlignHorizontal;
+    if (align === "CENTER" || align === "RIGHT") style.textAlign = align.toLowerCase();
+    if (align === "JUSTIFIED") style.textAlign = "justify";
+  }
+  return style;
+}
 
-const AGENT_TOOL_SPECS = TOOL_SPECS.filter((tool) => tool.name !== "get_figma_prompt");
-const OPENAI_TOOLS = AGENT_TOOL_SPECS.map((tool) => ({
-  type: "function",
-  name: tool.name,
-  description: tool.description,
-  parameters: tool.inputSchema,
-}));
+function spacingClass(prefix: string, px: number): string {
+  const key = SPACING_SCALE[px];
+  return key != null ? `${prefix}-${key}` : `${prefix}-[${codeNumber(px)}px]`;
+}
 
-const LOCAL_SYSTEM_PROMPT =
-  "You are CursorCanvas Local. Execute design requests directly in Figma using available tools and return concise status.";
+function colorClass(prefix: string, color: CodeColor, role: "bg" | "text" | "border"): string {
+  const name = SEMANTIC_COLORS[role][color.hex] ?? PALETTE_COLORS[color.hex];
+  if (!name) return `${prefix}-[${cssColor(color)}]`;
+  return color.alpha < 1 ? `${prefix}-${name}/${Math.round(color.alpha * 100)}` : `${prefix}-${name}`;
+}
 
-let pluginSocket: WebSocket | null = null;
-const pending = new Map<string, { resolve: (v: unknown) => void; reject: (e: Error) => void }>();
-const httpCommandQueue: Array<{ id: string; tool: string; params: JsonObject }> = [];
-let waitingGetRes: http.ServerResponse | null = null;
-let lastFigmaPrompt: string | null = null;
+function paddingClasses(padding: [number, number, number, number]): string[] {
+  const [top, right, bottom, left] = padding;
+  if (top === right && top === bottom && top === left) return [spacingClass("p", top)];
+  if (top === bottom && left === right) {
+    return [left ? spacingClass("px", left) : "", top ? spacingClass("py", top) : ""].filter(Boolean);
+  }
+  return (
+    [
+      ["pt", top],
+      ["pr", right],
+      ["pb", bottom],
+      ["pl", left],
+    ] as Array<[string, number]>
+  )
+    .filter(([, value]) => value)
+    .map(([prefix, value]) => spacingClass(prefix, value));
+}
 
-let wss: WebSocketServer | null = null;
-let activeWsPort = FIGSOR_PORT_INIT;
-let activeHttpPort = FIGSOR_PORT_INIT + 1;
+function tailwindClasses(style: CodeStyle): string[] {
+  const classes: string[] = [];
+  if (style.relative) classes.push("relative");
+  if (style.left != null && style.top != null) {
+    classes.push("absolute");
+    for (const [prefix, value] of [["left", style.left], ["top", style.top]] as Array<[string, number]>) {
+      classes.push(value < 0 ? `${prefix}-[${value}px]` : spacingClass(prefix, value));
+    }
+  }
+  if (style.direction) {
+    classes.push("flex");
+    if (style.direction === "column") classes.push("flex-col");
+    if (style.wrap) classes.push("flex-wrap");
+    if (style.justify) classes.push(`justify-${TAILWIND_JUSTIFY[style.justify]}`);
+    if (style.align) classes.push(`items-${TAILWIND_ALIGN[style.align]}`);
+    if (style.wrap) {
+      const [mainAxis, crossAxis] = style.direction === "row" ? ["gap-x", "gap-y"] : ["gap-y", "gap-x"];
+      if (style.gap) classes.push(spacingClass(mainAxis, style.gap));
+      if (style.crossGap) classes.push(spacingClass(crossAxis, style.crossGap));
+    } else if (style.gap) {
+      classes.push(spacingClass("gap", style.gap));
+    }
+  }
+  if (style.padding) classes.push(...paddingClasses(style.padding));
+  if (style.grow) classes.push("flex-1");
+  if (style.stretch) classes.push("self-stretch");
+  if (style.noShrink) classes.push("shrink-0");
+  if (style.width != null) classes.push(spacingClass("w", style.width));
+  if (style.height != null) classes.push(spacingClass("h", style.height));
+  if (style.background) classes.push(colorClass("bg", style.background, "bg"));
+  if (style.gradient) classes.push(`bg-[${style.gradient.replace(/\s+/g, "_")}]`);
+  if (style.borderWidth != null) {
+    const width = style.borderWidth;
+    classes.push(width === 1 ? "border" : [2, 4, 8].includes(width) ? `border-${width}` : `border-[${width}px]`);
+    if (style.borderColor) classes.push(colorClass("border", style.borderColor, "border"));
+  }
+  if (style.radius != null) {
+    classes.push(style.radius >= 9999 ? "rounded-full" : RADIUS_CLASSES[style.radius] ?? `rounded-[${style.radius}px]`);
+  }
+  if (style.shadow) classes.push(SHADOW_CLASSES[style.shadow] ?? `shadow-[${style.shadow.replace(/,\s+/g, ",").replace(/\s+/g, "_")}]`);
+  if (style.opacity != null) {
+    const percent = Math.round(style.opacity * 100);
+    classes.push(percent % 5 === 0 ? `opacity-${percent}` : `opacity-[${codeNumber(style.opacity)}]`);
+  }
+  if (style.fontFamily) classes.push(`font-['${style.fontFamily.replace(/\s+/g, "_")}']`);
+  if (style.fontSize != null) {
+    const token = FONT_SIZE_CLASSES[style.fontSize];
+    classes.push(token ? `text-${token.name}` : `text-[${style.fontSize}px]`);
+    // Token sizes carry their own line height; only emit leading when it differs.
+    if (style.lineHeight != null && style.lineHeight !== token?.lineHeight) {
+      const key = style.lineHeight % 4 === 0 && style.lineHeight >= 12 && style.lineHeight <= 40 ? style.lineHeight / 4 : null;
+      classes.push(key != null ? `leading-${key}` : `leading-[${style.lineHeight}px]`);
+    }
+  }
+  if (style.fontWeight != null && FONT_WEIGHT_CLASSES[style.fontWeight]) {
+    classes.push(`font-${FONT_WEIGHT_CLASSES[style.fontWeight]}`);
+  }
+  if (style.textAlign) classes.push(`text-${style.textAlign}`);
+  if (style.color) classes.push(colorClass("text", style.color, "text"));
+  return classes;
+}
 
-function writeJson(res: http.ServerResponse, status: number, payload: unknown): void {
-  res.writeHead(status, {
-    "Content-Type": "application/json",
-    "Access-Control-Allow-Origin": "*",
-  });
-  res.end(JSON.stringify(payload));
+function cssColorValue(color: CodeColor, role: "bg" | "text" | "border", ctx: CodeContext): string {
+  const token = SEMANTIC_COLORS[role][color.hex];
+  if (!token || color.alpha < 1) return cssColor(color);
+  ctx.usedTokens.add(token);
+  return `var(--${token})`;
 }
 
-function pluginBridgeReady(): boolean {
-  return (pluginSocket != null && pluginSocket.readyState === 1) || waitingGetRes != null;
+function cssDeclarations(style: CodeStyle, ctx: CodeContext): Array<[string, string]> {
+  const out: Array<[string, string]> = [];
+  const px = (value: number) => `${codeNumber(value)}px`;
+  if (style.relative) out.push(["position", "relative"]);
+  if (style.left != null && style.top != null) {
+    out.push(["position", "absolute"], ["left", px(style.left)], ["top", px(style.top)]);
+  }
+  if (style.direction) {
+    out.push(["display", "flex"], ["flex-direction", style.direction]);
+    if (style.wrap) out.push(["flex-wrap", "wrap"]);
+    if (style.justify) out.push(["justify-content", style.justify]);
+    if (style.align) out.push(["align-items", style.align]);
+    if (style.wrap) {
+      const [mainAxis, crossAxis] = style.direction === "row" ? ["column-gap", "row-gap"] : ["row-gap", "column-gap"];
+      if (style.gap) out.push([mainAxis, px(style.gap)]);
+      if (style.crossGap) out.push([crossAxis, px(style.crossGap)]);
+    } else if (style.gap) {
+      out.push(["gap", px(style.gap)]);
+    }
+  }
+  if (style.padding) out.push(["padding", style.padding.map(px).join(" ")]);
+  if (style.grow) out.push(["flex", "1 1 0"]);
+  if (style.stretch) out.push(["align-self", "stretch"]);
+  if (style.noShrink) out.push(["flex-shrink", "0"]);
+  if (style.width != null) out.push(["width", px(style.width)]);
+  if (style.height != null) out.push(["height", px(style.height)]);
+  if (style.background) out.push(["background-color", cssColorValue(style.background, "bg", ctx)]);
+  if (style.gradient) out.push(["background-image", style.gradient]);
+  if (style.borderWidth != null) {
+    const color = style.borderColor ? cssColorValue(style.borderColor, "border", ctx) : "currentColor";
+    out.push(["border", `${px(style.borderWidth)} solid ${color}`]);
+  }
+  if (style.radius != null) out.push(["border-radius", style.radius >= 9999 ? "9999px" : px(style.radius)]);
+  if (style.shadow) out.push(["box-shadow", style.shadow]);
+  if (style.opacity != null) out.push(["opacity", String(codeNumber(style.opacity))]);
+  if (style.fontFamily) out.push(["font-family", `"${style.fontFamily}", sans-serif`]);
+  if (style.fontSize != null) out.push(["font-size", px(style.fontSize)]);
+  if (style.fontWeight != null && style.fontWeight !== 400) out.push(["font-weight", String(style.fontWeight)]);
+  if (style.lineHeight != null) out.push(["line-height", px(style.lineHeight)]);
+  if (style.textAlign) out.push(["text-align", style.textAlign]);
+  if (style.color) out.push(["color", cssColorValue(style.color, "text", ctx)]);
+  return out;
 }
 
-function parseJsonSafe<T>(body: string, fallback: T): T {
-  try {
-    return JSON.parse(body) as T;
-  } catch {
-    return fallback;
+function kebabName(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+function componentNameFor(name: string): string {
+  const pascal = name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join("");
+  return /^[A-Z]/.test(pascal) ? pascal : `Component${pascal}`;
+}
+
+function uniqueClassName(node: CodeNode, ctx: CodeContext): string {
+  const base = kebabName(node.name) || node.type.toLowerCase();
+  let name = /^[a-z]/.test(base) ? base : `node-${base}`;
+  for (let i = 2; ctx.classNames.has(name); i += 1) name = `${base}-${i}`;
+  ctx.classNames.add(name);
+  return name;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function textMarkup(text: string, format: string): string {
+  return text
+    .split("\n")
+    .map((line) => (format === "html" ? escapeHtml(line) : /[{}<>&]/.test(line) ? `{${JSON.stringify(line)}}` : line))
+    .join("<br />");
+}
+
+function elementTag(node: CodeNode, parentTag: string | null): string {
+  if (node.type === "TEXT") return parentTag === "button" || parentTag === "p" ? "span" : "p";
+  if (/button|btn/i.test(node.name) && parentTag !== "button") return "button";
+  return "div";
+}
+
+function renderCodeNode(node: CodeNode, parent: CodeNode | null, parentTag: string | null, depth: number, ctx: CodeContext): string[] {
+  if (node.visible === false) return [];
+  const indent = "  ".repeat(depth);
+  const tag = elementTag(node, parentTag);
+  const style = codeStyle(node, parent, ctx);
+  if (node.type !== "TEXT" && !CONTAINER_TYPES.has(node.type) && !["RECTANGLE", "ELLIPSE"].includes(node.type)) {
+    ctx.warnings.push(`${node.name}: ${node.type.toLowerCase()} left as an empty box; export it with export_node format SVG.`);
+  }
+
+  let attrs = tag === "button" ? ` type="button"` : "";
+  if (ctx.format === "react") {
+    const classes = tailwindClasses(style);
+    if (classes.length > 0) attrs += ` className="${classes.join(" ")}"`;
+  } else {
+    const declarations = cssDeclarations(style, ctx);
+    if (declarations.length > 0) {
+      const className = uniqueClassName(node, ctx);
+      attrs += ` class="${className}"`;
+      ctx.cssRules.push(`.${className} {\n${declarations.map(([prop, value]) => `  ${prop}: ${value};`).join("\n")}\n}`);
+    }
+  }
+
+  if (node.type === "TEXT") return [`${indent}<${tag}${attrs}>${textMarkup(node.characters ?? "", ctx.format)}</${tag}>`];
+  const children = (node.children ?? []).flatMap((child) => renderCodeNode(child, node, tag, depth + 1, ctx));
+  if (children.length === 0) {
+    return [ctx.format === "react" ? `${indent}<${tag}${attrs} />` : `${indent}<${tag}${attrs}></${tag}>`];
   }
+  return [`${indent}<${tag}${attrs}>`, ...children, `${indent}</${tag}>`];
 }
 
-function readBody(req: http.IncomingMessage): Promise<string> {
-  return new Promise((resolve) => {
-    let body = "";
-    req.on("data", (chunk) => {
-      body += chunk;
-    });
-    req.on("end", () => resolve(body));
-  });
+async function generateCode(params: JsonObject): Promise<GeneratedCode> {
+  const format = typeof params.format === "string" ? params.format.toLowerCase() : "react";
+  if (!CODE_FORMATS.includes(format)) throw new Error(`format must be one of ${CODE_FORMATS.join(", ")}.`);
+
+  const warnings: string[] = [];
+  let nodeId = typeof params.nodeId === "string" ? params.nodeId.trim() : "";
+  if (!nodeId) {
+    const selection = (await sendToPlugin(makeRequestId("code"), "get_selection", {})) as { nodes?: Array<{ id: string }> };
+    const nodes = selection.nodes ?? [];
+    if (nodes.length === 0) throw new Error("Pass nodeId or select a node in Figma.");
+    if (nodes.length > 1) warnings.push(`${nodes.length} nodes selected; generated code for the first only.`);
+    nodeId = nodes[0].id;
+  }
+  const tree = (await sendToPlugin(makeRequestId("code"), "get_node_tree", { nodeId, maxDepth: 12, maxNodes: 2000 })) as {
+    root: CodeNode;
+    nodeCount: number;
+    truncated: boolean;
+  };
+  if (tree.truncated) warnings.push("Node tree was truncated at 2000 nodes or 12 levels; deeper layers are missing.");
+
+  const ctx: CodeContext = { format, warnings, usedTokens: new Set(), classNames: new Set(), cssRules: [] };
+  if (format === "html") {
+    const markup = renderCodeNode(tree.root, null, null, 0, ctx).join("\n");
+    const tokens = [...ctx.usedTokens].map((token) => `  --${token}: ${TOKEN_VALUES[token]};`);
+    const css = [...(tokens.length > 0 ? [`:root {\n${tokens.join("\n")}\n}`] : []), ...ctx.cssRules].join("\n\n");
+    return { format, code: markup, css, nodeCount: tree.nodeCount, truncated: tree.truncated, warnings };
+  }
+
+  const componentName =
+    typeof params.componentName === "string" && params.componentName.trim()
+      ? componentNameFor(params.componentName.trim())
+      : componentNameFor(tree.root.name);
+  const markup = renderCodeNode(tree.root, null, null, 2, ctx);
+  const code = [`export function ${componentName}() {`, "  return (", ...markup, "  );", "}", ""].join("\n");
+  return { format, componentName, code, nodeCount: tree.nodeCount, truncated: tree.truncated, warnings };
 }
 
-function makeRequestId(prefix: string): string {
-  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+function isGeneratedCode(value: unknown): value is GeneratedCode {
+  if (value == null || typeof value !== "object") return false;
+  const result = value as JsonObject;
+  return typeof result.code === "string" && typeof result.format === "string";
 }
 
-function probePort(port: number): Promise<boolean> {
-  return new Promise((resolve) => {
-    const tester = net.createServer();
-    tester.unref();
-    tester.once("error", () => resolve(false));
-    tester.listen(port, "127.0.0.1", () => {
-      tester.close(() => resolve(true));
-    });
+// Code-to-design: HTML or JSX with Tailwind or inline styles parsed into a create_from_spec tree.
+const MARKUP_DEFAULT_WIDTH = 400;
+const MARKUP_MAX_WARNINGS = 20;
+const MARKUP_EXTENSIONS = new Set([".html", ".htm", ".jsx", ".tsx", ".js", ".ts", ".vue", ".svelte"]);
+const MARKUP_MAX_FILE_BYTES = 512 * 1024;
+const VOID_TAGS = new Set(["area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source", "track", "wbr"]);
+const SKIPPED_TAGS = new Set(["script", "style", "head", "title", "template"]);
+const INLINE_TEXT_TAGS = new Set(["b", "strong", "i", "em", "span", "a", "code", "small", "u", "s", "label", "br"]);
+const INLINE_TAGS = new Set(["span", "a", "button", "img", "input", "label", "code", "small", "strong", "b", "em", "i", "select", "textarea"]);
+const BOX_STYLE_KEYS = ["background", "borderWidth", "padding", "radius", "shadow", "width", "height", "gradient"] as const;
+const TEXT_STYLE_KEYS = ["color", "fontSize", "fontWeight", "fontFamily", "lineHeight", "lineHeightRatio", "textAlign", "textCase", "textDecoration"] as const;
+
+const FONT_STYLE_NAMES: Record<number, string> = {
+  100: "Thin",
+  200: "Extra Light",
+  300: "Light",
+  400: "Regular",
+  500: "Medium",
+  600: "Semi Bold",
+  700: "Bold",
+  800: "Extra Bold",
+  900: "Black",
+};
+
+// shadcn aliases the design-tokens doc maps onto existing values.
+const TOKEN_ALIASES: Record<string, string> = {
+  card: "#ffffff",
+  "card-foreground": "#0e0e1b",
+  accent: "#f4f4f5",
+  "accent-foreground": "#0e0e1b",
+  input: "#e4e4e7",
+  ring: "#e4e4e7",
+  "destructive-foreground": "#ffffff",
+};
+
+const LEADING_RATIOS: Record<string, number> = { none: 1, tight: 1.25, snug: 1.375, normal: 1.5, relaxed: 1.625, loose: 2 };
+const CSS_COLOR_NAMES: Record<string, string> = { white: "#ffffff", black: "#000000" };
+
+// Tailwind's default palette (v3 hex values) so any stock color class in imported markup resolves.
+// generate_code keeps to PALETTE_COLORS, which only names the colors the design tokens use.
+const TAILWIND_SHADES = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950];
+const TAILWIND_PALETTE: Record<string, string[]> = {
+  slate: ["#f8fafc", "#f1f5f9", "#e2e8f0", "#cbd5e1", "#94a3b8", "#64748b", "#475569", "#334155", "#1e293b", "#0f172a", "#020617"],
+  gray: ["#f9fafb", "#f3f4f6", "#e5e7eb", "#d1d5db", "#9ca3af", "#6b7280", "#4b5563", "#374151", "#1f2937", "#111827", "#030712"],
+  zinc: ["#fafafa", "#f4f4f5", "#e4e4e7", "#d4d4d8", "#a1a1aa", "#71717a", "#52525b", "#3f3f46", "#27272a", "#18181b", "#09090b"],
+  neutral: ["#fafafa", "#f5f5f5", "#e5e5e5", "#d4d4d4", "#a3a3a3", "#737373", "#525252", "#404040", "#262626", "#171717", "#0a0a0a"],
+  stone: ["#fafaf9", "#f5f5f4", "#e7e5e4", "#d6d3d1", "#a8a29e", "#78716c", "#57534e", "#44403c", "#292524", "#1c1917", "#0c0a09"],
+  red: ["#fef2f2", "#fee2e2", "#fecaca", "#fca5a5", "#f87171", "#ef4444", "#dc2626", "#b91c1c", "#991b1b", "#7f1d1d", "#450a0a"],
+  orange: ["#fff7ed", "#ffedd5", "#fed7aa", "#fdba74", "#fb923c", "#f97316", "#ea580c", "#c2410c", "#9a3412", "#7c2d12", "#431407"],
+  amber: ["#fffbeb", "#fef3c7", "#fde68a", "#fcd34d", "#fbbf24", "#f59e0b", "#d97706", "#b45309", "#92400e", "#78350f", "#451a03"],
+  yellow: ["#fefce8", "#fef9c3", "#fef08a", "#fde047", "#facc15", "#eab308", "#ca8a04", "#a16207", "#854d0e", "#713f12", "#422006"],
+  lime: ["#f7fee7", "#ecfccb", "#d9f99d", "#bef264", "#a3e635", "#84cc16", "#65a30d", "#4d7c0f", "#3f6212", "#365314", "#1a2e05"],
+  green: ["#f0fdf4", "#dcfce7", "#bbf7d0", "#86efac", "#4ade80", "#22c55e", "#16a34a", "#15803d", "#166534", "#14532d", "#052e16"],
+  emerald: ["#ecfdf5", "#d1fae5", "#a7f3d0", "#6ee7b7", "#34d399", "#10b981", "#059669", "#047857", "#065f46", "#064e3b", "#022c22"],
+  teal: ["#f0fdfa", "#ccfbf1", "#99f6e4", "#5eead4", "#2dd4bf", "#14b8a6", "#0d9488", "#0f766e", "#115e59", "#134e4a", "#042f2e"],
+  cyan: ["#ecfeff", "#cffafe", "#a5f3fc", "#67e8f9", "#22d3ee", "#06b6d4", "#0891b2", "#0e7490", "#155e75", "#164e63", "#083344"],
+  sky: ["#f0f9ff", "#e0f2fe", "#bae6fd", "#7dd3fc", "#38bdf8", "#0ea5e9", "#0284c7", "#0369a1", "#075985", "#0c4a6e", "#082f49"],
+  blue: ["#eff6ff", "#dbeafe", "#bfdbfe", "#93c5fd", "#60a5fa", "#3b82f6", "#2563eb", "#1d4ed8", "#1e40af", "#1e3a8a", "#172554"],
+  indigo: ["#eef2ff", "#e0e7ff", "#c7d2fe", "#a5b4fc", "#818cf8", "#6366f1", "#4f46e5", "#4338ca", "#3730a3", "#312e81", "#1e1b4b"],
+  violet: ["#f5f3ff", "#ede9fe", "#ddd6fe", "#c4b5fd", "#a78bfa", "#8b5cf6", "#7c3aed", "#6d28d9", "#5b21b6", "#4c1d95", "#2e1065"],
+  purple: ["#faf5ff", "#f3e8ff", "#e9d5ff", "#d8b4fe", "#c084fc", "#a855f7", "#9333ea", "#7e22ce", "#6b21a8", "#581c87", "#3b0764"],
+  fuchsia: ["#fdf4ff", "#fae8ff", "#f5d0fe", "#f0abfc", "#e879f9", "#d946ef", "#c026d3", "#a21caf", "#86198f", "#701a75", "#4a044e"],
+  pink: ["#fdf2f8", "#fce7f3", "#fbcfe8", "#f9a8d4", "#f472b6", "#ec4899", "#db2777", "#be185d", "#9d174d", "#831843", "#500724"],
+  rose: ["#fff1f2", "#ffe4e6", "#fecdd3", "#fda4af", "#fb7185", "#f43f5e", "#e11d48", "#be123c", "#9f1239", "#881337", "#4c0519"],
+};
+
+function tailwindPaletteColor(name: string): string | undefined {
+  if (name in CSS_COLOR_NAMES) return CSS_COLOR_NAMES[name];
+  const match = /^([a-z]+)-(\d+)$/.exec(name);
+  if (!match || !TAILWIND_PALETTE[match[1]]) return undefined;
+  const shade = TAILWIND_SHADES.indexOf(Number(match[2]));
+  return shade >= 0 ? TAILWIND_PALETTE[match[1]][shade] : undefined;
+}
+
+
+interface MarkupElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children: MarkupChild[];
+  source?: string;
+}
+
+type MarkupChild = MarkupElement | string;
+
+interface MarkupStyle extends CodeStyle {
+  display?: "flex" | "block" | "inline" | "none";
+  gapX?: number;
+  gapY?: number;
+  fullWidth?: boolean;
+  fullHeight?: boolean;
+  lineHeightRatio?: number;
+  textCase?: string;
+  textDecoration?: string;
+}
+
+type TextStyle = Pick<MarkupStyle, (typeof TEXT_STYLE_KEYS)[number]>;
+
+interface MarkupCursor {
+  src: string;
+  pos: number;
+  warnings: Set<string>;
+}
+
+interface MarkupContext {
+  warnings: Set<string>;
+  unknownClasses: Set<string>;
+}
+
+interface ParentLayout {
+  direction: "row" | "column";
+  block: boolean;
+  stretch: boolean;
+  definiteWidth: boolean;
+  definiteHeight: boolean;
+}
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ", "#39": "'" };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (ENTITIES[entity.toLowerCase()]) return ENTITIES[entity.toLowerCase()];
+    if (entity.startsWith("#x")) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith("#")) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return match;
   });
 }
 
-function sendToPlugin(id: string, tool: string, params: JsonObject): Promise<unknown> {
-  return new Promise((resolve, reject) => {
-    pending.set(id, { resolve, reject });
-    setTimeout(() => {
-      if (pending.has(id)) {
-        pending.delete(id);
-        reject(new Error("Plugin timeout"));
-      }
-    }, 20000);
+function isTagStart(src: string, pos: number): boolean {
+  return src[pos] === "<" && /[A-Za-z>]/.test(src[pos + 1] ?? "");
+}
 
-    if (pluginSocket && pluginSocket.readyState === 1) {
-      pluginSocket.send(JSON.stringify({ id, tool, params }));
-      return;
+// Reads a {...} JSX expression, skipping nested braces and string literals.
+function readBraces(cur: MarkupCursor): string {
+  const start = cur.pos;
+  let depth = 0;
+  while (cur.pos < cur.src.length) {
+    const ch = cur.src[cur.pos];
+    if (ch === '"' || ch === "'" || ch === "`") {
+      const end = cur.src.indexOf(ch, cur.pos + 1);
+      cur.pos = end < 0 ? cur.src.length : end + 1;
+      continue;
+    }
+    cur.pos += 1;
+    if (ch === "{") depth += 1;
+    if (ch === "}" && --depth === 0) break;
+  }
+  return cur.src.slice(start + 1, cur.pos - 1).trim();
+}
+
+function stringLiterals(expression: string): string[] {
+  return [...expression.matchAll(/(["'`])((?:\\.|(?!\1)[^\\])*)\1/g)].map((match) => match[2]);
+}
+
+function parseAttributes(cur: MarkupCursor): { attrs: Record<string, string>; selfClosing: boolean } {
+  const attrs: Record<string, string> = {};
+  while (cur.pos < cur.src.length) {
+    while (/\s/.test(cur.src[cur.pos] ?? "")) cur.pos += 1;
+    if (cur.src.startsWith("/>", cur.pos)) {
+      cur.pos += 2;
+      return { attrs, selfClosing: true };
+    }
+    if (cur.src[cur.pos] === ">") {
+      cur.pos += 1;
+      return { attrs, selfClosing: false };
+    }
+    if (cur.src[cur.pos] === "{") {
+      readBraces(cur);
+      continue;
+    }
+    const name = /^[^\s=/>]+/.exec(cur.src.slice(cur.pos))?.[0];
+    if (!name) {
+      cur.pos += 1;
+      continue;
+    }
+    cur.pos += name.length;
+    while (/\s/.test(cur.src[cur.pos] ?? "")) cur.pos += 1;
+    if (cur.src[cur.pos] !== "=") {
+      attrs[name] = "true";
+      continue;
     }
+    cur.pos += 1;
+    while (/\s/.test(cur.src[cur.pos] ?? "")) cur.pos += 1;
+    const quote = cur.src[cur.pos];
+    if (quote === '"' || quote === "'") {
+      const end = cur.src.indexOf(quote, cur.pos + 1);
+      attrs[name] = decodeEntities(cur.src.slice(cur.pos + 1, end < 0 ? undefined : end));
+      cur.pos = end < 0 ? cur.src.length : end + 1;
+    } else if (quote === "{") {
+      attrs[name] = `{${readBraces(cur)}}`;
+    } else {
+      const value = /^[^\s>]+/.exec(cur.src.slice(cur.pos))?.[0] ?? "";
+      attrs[name] = value;
+      cur.pos += value.length;
+    }
+  }
+  return { attrs, selfClosing: true };
+}
 
-    httpCommandQueue.push({ id, tool, params });
-    if (waitingGetRes) {
-      const cmd = httpCommandQueue.shift()!;
-      writeJson(waitingGetRes, 200, cmd);
-      waitingGetRes = null;
+function parseExpression(cur: MarkupCursor): MarkupChild | null {
+  const expression = readBraces(cur);
+  if (!expression || /^\/\*[\s\S]*\*\/$/.test(expression)) return null;
+  const literal = /^(["'`])([\s\S]*)\1$/.exec(expression);
+  if (literal && !literal[2].includes("${")) return literal[2];
+  if (expression.includes("<")) {
+    cur.warnings.add(`Skipped JSX expression {${expression.slice(0, 40)}…}; inline the markup to import it.`);
+    return null;
+  }
+  return `{${expression}}`;
+}
+
+function parseChildren(cur: MarkupCursor, tag: string): MarkupChild[] {
+  const children: MarkupChild[] = [];
+  while (cur.pos < cur.src.length) {
+    if (cur.src.startsWith("</", cur.pos)) {
+      const end = cur.src.indexOf(">", cur.pos);
+      cur.pos = end < 0 ? cur.src.length : end + 1;
+      return children;
     }
+    if (cur.src.startsWith("<!--", cur.pos)) {
+      const end = cur.src.indexOf("-->", cur.pos);
+      cur.pos = end < 0 ? cur.src.length : end + 3;
+      continue;
+    }
+    if (isTagStart(cur.src, cur.pos)) {
+      children.push(parseElement(cur));
+      continue;
+    }
+    if (cur.src[cur.pos] === "{") {
+      const child = parseExpression(cur);
+      if (child != null) children.push(child);
+      continue;
+    }
+    const next = cur.src.slice(cur.pos).search(/<|\{/);
+    const end = next < 0 ? cur.src.length : cur.pos + (next === 0 ? 1 : next);
+    children.push(decodeEntities(cur.src.slice(cur.pos, end)));
+    cur.pos = end;
+  }
+  cur.warnings.add(`<${tag || "fragment"}> was never closed.`);
+  return children;
+}
+
+function parseElement(cur: MarkupCursor): MarkupElement {
+  const start = cur.pos;
+  cur.pos += 1;
+  const tag = /^[A-Za-z][\w.:-]*/.exec(cur.src.slice(cur.pos))?.[0] ?? "";
+  cur.pos += tag.length;
+  const { attrs, selfClosing } = parseAttributes(cur);
+  const lower = tag.toLowerCase();
+  if (selfClosing || VOID_TAGS.has(lower)) return { tag, attrs, children: [] };
+
+  if (lower === "svg" || SKIPPED_TAGS.has(lower)) {
+    const close = new RegExp(`</${lower}\\s*>`, "i").exec(cur.src.slice(cur.pos));
+    const end = close ? cur.pos + close.index + close[0].length : cur.src.length;
+    const source = cur.src.slice(start, end);
+    cur.pos = end;
+    return { tag, attrs, children: [], source };
+  }
+  return { tag, attrs, children: parseChildren(cur, tag) };
+}
+
+// Finds the first real tag, so a whole component file or a `return (...)` body can be passed in.
+function parseMarkup(source: string, warnings: Set<string>): MarkupElement[] {
+  const cur: MarkupCursor = { src: source, pos: Math.max(0, source.search(/return\s*\(?\s*</)), warnings };
+  const roots: MarkupElement[] = [];
+  while (cur.pos < source.length) {
+    const next = source.slice(cur.pos).search(/<[A-Za-z>]/);
+    if (next < 0) break;
+    cur.pos += next;
+    if (cur.pos > 0 && /[\w$]/.test(source[cur.pos - 1]) && roots.length === 0) {
+      // Type arguments such as useState<string>.
+      cur.pos += 1;
+      continue;
+    }
+    roots.push(parseElement(cur));
+    const rest = source.slice(cur.pos);
+    if (!/^\s*<[A-Za-z>]/.test(rest)) break;
+  }
+  if (roots.length === 0) throw new Error("No HTML or JSX element found in markup.");
+  return roots.flatMap((root) => (root.tag === "" ? root.children.filter(isMarkupElement) : [root]));
+}
+
+function isMarkupElement(child: MarkupChild): child is MarkupElement {
+  return typeof child !== "string";
+}
+
+function parseCssColor(value: string): CodeColor | undefined {
+  const text = value.trim().toLowerCase();
+  if (CSS_COLOR_NAMES[text]) return { hex: CSS_COLOR_NAMES[text], alpha: 1 };
+  const hex = /^#([0-9a-f]{3,8})$/.exec(text)?.[1];
+  if (hex && [3, 6, 8].includes(hex.length)) {
+    const full = hex.length === 3 ? hex.split("").map((c) => c + c).join("") : hex;
+    const alpha = full.length === 8 ? codeNumber(parseInt(full.slice(6), 16) / 255) : 1;
+    return { hex: `#${full.slice(0, 6)}`, alpha };
+  }
+  const rgb = /^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:[\s,/]+([\d.]+%?))?\s*\)$/.exec(text);
+  if (rgb) {
+    const channels = rgb.slice(1, 4).map((channel) => Math.round(Number(channel)).toString(16).padStart(2, "0"));
+    const alphaText = rgb[4];
+    const alpha = alphaText == null ? 1 : alphaText.endsWith("%") ? parseFloat(alphaText) / 100 : Number(alphaText);
+    return { hex: `#${channels.join("")}`, alpha: codeNumber(alpha) };
+  }
+  return undefined;
+}
+
+function cssLength(value: string, fontSize = 16): number | undefined {
+  const match = /^(-?[\d.]+)(px|rem|em)?$/.exec(value.trim());
+  if (!match) return undefined;
+  const amount = Number(match[1]);
+  return codeNumber(match[2] === "rem" ? amount * 16 : match[2] === "em" ? amount * fontSize : amount);
+}
+
+function arbitraryValue(value: string): string | undefined {
+  const match = /^\[(.+)\]$/.exec(value);
+  return match ? match[1].replace(/_/g, " ") : undefined;
+}
+
+function spacingValue(value: string): number | undefined {
+  const arbitrary = arbitraryValue(value);
+  if (arbitrary != null) return cssLength(arbitrary);
+  if (value === "px") return 1;
+  const step = Number(value);
+  return Number.isFinite(step) ? step * 4 : undefined;
+}
+
+function tailwindColor(value: string): CodeColor | undefined {
+  const [name, alpha] = value.split("/");
+  const arbitrary = arbitraryValue(name);
+  const color = arbitrary != null
+    ? parseCssColor(arbitrary)
+    : (() => {
+        const hex = TOKEN_VALUES[name] ?? TOKEN_ALIASES[name] ?? tailwindPaletteColor(name);
+        return hex ? { hex, alpha: 1 } : undefined;
+      })();
+  if (color && alpha != null) color.alpha = codeNumber(Number(alpha) / 100);
+  return color;
+}
+
+function shadowEffects(css: string): JsonObject[] {
+  return css.split(/,(?![^(]*\))/).flatMap((part) => {
+    const inset = /\binset\b/.test(part);
+    const colorText = /(rgba?\([^)]*\)|#[0-9a-f]{3,8})/i.exec(part)?.[1] ?? "rgba(0,0,0,0.25)";
+    const lengths = part.replace(colorText, "").replace("inset", "").trim().split(/\s+/).map((item) => cssLength(item) ?? 0);
+    const color = parseCssColor(colorText);
+    if (!color) return [];
+    const alpha = Math.round(color.alpha * 255).toString(16).padStart(2, "0");
+    return [
+      {
+        type: inset ? "INNER_SHADOW" : "DROP_SHADOW",
+        color: `${color.hex}${alpha}`,
+        offsetX: lengths[0] ?? 0,
+        offsetY: lengths[1] ?? 0,
+        radius: lengths[2] ?? 0,
+        spread: lengths[3] ?? 0,
+      },
+    ];
   });
 }
 
-async function runTool(tool: string, params: JsonObject): Promise<unknown> {
+function setPadding(style: MarkupStyle, sides: number[], value: number): void {
+  const padding = style.padding ?? [0, 0, 0, 0];
+  for (const side of sides) padding[side] = value;
+  style.padding = padding;
+}
+
+const PADDING_SIDES: Record<string, number[]> = { p: [0, 1, 2, 3], px: [1, 3], py: [0, 2], pt: [0], pr: [1], pb: [2], pl: [3] };
+const FLEX_JUSTIFY: Record<string, string> = { start: "flex-start", center: "center", end: "flex-end", between: "space-between" };
+const FLEX_ALIGN: Record<string, string> = { start: "flex-start", center: "center", end: "flex-end", baseline: "baseline", stretch: "stretch" };
+const JUSTIFY_FROM_CSS: Record<string, string> = { "flex-start": "MIN", center: "CENTER", "flex-end": "MAX", "space-between": "SPACE_BETWEEN" };
+const ALIGN_FROM_CSS: Record<string, string> = { "flex-start": "MIN", center: "CENTER", "flex-end": "MAX", baseline: "BASELINE" };
+
+function applyTailwindClass(style: MarkupStyle, className: string, ctx: MarkupContext): void {
+  // Responsive and state variants (md:, hover:, dark:) describe other states than the default render.
+  if (/^[^[]*:/.test(className)) return;
+  const cls = className.replace(/^!/, "");
+  const [, prefix, value] = /^(-?[a-z]+(?:-[xy])?)-(.+)$/.exec(cls) ?? [undefined, cls, ""];
+
+  if (cls === "flex" || cls === "inline-flex") style.display = "flex";
+  else if (cls === "block") style.display = "block";
+  else if (cls === "inline-block" || cls === "inline") style.display = "inline";
+  else if (cls === "hidden") style.display = "none";
+  else if (cls === "flex-row") style.direction = "row";
+  else if (cls === "flex-col") style.direction = "column";
+  else if (cls === "flex-wrap") style.wrap = true;
+  else if (cls === "flex-1" || cls === "grow" || cls === "flex-grow") style.grow = true;
+  else if (cls === "self-stretch") style.stretch = true;
+  else if (cls === "w-full") style.fullWidth = true;
+  else if (cls === "h-full") style.fullHeight = true;
+  else if (cls === "border") style.borderWidth = 1;
+  else if (cls === "rounded") style.radius = 4;
+  else if (cls === "rounded-none") style.radius = 0;
+  else if (cls === "rounded-full") style.radius = 9999;
+  else if (cls === "uppercase" || cls === "lowercase" || cls === "capitalize") {
+    style.textCase = cls === "capitalize" ? "TITLE" : cls === "uppercase" ? "UPPER" : "LOWER";
+  } else if (cls === "underline" || cls === "line-through") {
+    style.textDecoration = cls === "underline" ? "UNDERLINE" : "STRIKETHROUGH";
+  } else if (cls.startsWith("shadow")) {
+    const css = Object.keys(SHADOW_CLASSES).find((key) => SHADOW_CLASSES[key] === cls);
+    if (css) style.shadow = css;
+    else if (cls !== "shadow-none") ctx.unknownClasses.add(cls);
+  } else if (cls.startsWith("rounded-") && Object.values(RADIUS_CLASSES).includes(cls)) {
+    style.radius = Number(Object.keys(RADIUS_CLASSES).find((key) => RADIUS_CLASSES[Number(key)] === cls));
+  } else if (prefix === "rounded" && arbitraryValue(value) != null) {
+    style.radius = cssLength(arbitraryValue(value) ?? "");
+  } else if (prefix === "justify" && FLEX_JUSTIFY[value]) {
+    style.justify = FLEX_JUSTIFY[value];
+  } else if (prefix === "items" && FLEX_ALIGN[value]) {
+    style.align = FLEX_ALIGN[value];
+  } else if (prefix === "gap" && spacingValue(value) != null) {
+    style.gapX = style.gapY = spacingValue(value);
+  } else if ((prefix === "gap-x" || prefix === "space-x") && spacingValue(value) != null) {
+    style.gapX = spacingValue(value);
+  } else if ((prefix === "gap-y" || prefix === "space-y") && spacingValue(value) != null) {
+    style.gapY = spacingValue(value);
+  } else if (PADDING_SIDES[prefix] && spacingValue(value) != null) {
+    setPadding(style, PADDING_SIDES[prefix], spacingValue(value) ?? 0);
+  } else if ((prefix === "w" || prefix === "h" || prefix === "size") && spacingValue(value) != null) {
+    if (prefix !== "h") style.width = spacingValue(value);
+    if (prefix !== "w") style.height = spacingValue(value);
+  } else if (prefix === "bg" && tailwindColor(value)) {
+    style.background = tailwindColor(value);
+  } else if (prefix === "bg" && value === "transparent") {
+    style.background = undefined;
+  } else if (prefix === "border" && /^\d+$/.test(value)) {
+    style.borderWidth = Number(value);
+  } else if (prefix === "border" && tailwindColor(value)) {
+    style.borderColor = tailwindColor(value);
+  } else if (prefix === "text" && ["left", "center", "right", "justify"].includes(value)) {
+    style.textAlign = value === "left" ? undefined : value;
+  } else if (prefix === "text" && Object.values(FONT_SIZE_CLASSES).some((token) => token.name === value)) {
+    const size = Number(Object.keys(FONT_SIZE_CLASSES).find((key) => FONT_SIZE_CLASSES[Number(key)].name === value));
+    style.fontSize = size;
+    style.lineHeight = FONT_SIZE_CLASSES[size].lineHeight;
+    style.lineHeightRatio = undefined;
+  } else if (prefix === "text" && arbitraryValue(value) != null && cssLength(arbitraryValue(value) ?? "") != null) {
+    style.fontSize = cssLength(arbitraryValue(value) ?? "");
+  } else if (prefix === "text" && tailwindColor(value)) {
+    style.color = tailwindColor(value);
+  } else if (prefix === "font" && Object.values(FONT_WEIGHT_CLASSES).includes(value)) {
+    style.fontWeight = Number(Object.keys(FONT_WEIGHT_CLASSES).find((key) => FONT_WEIGHT_CLASSES[Number(key)] === value));
+  } else if (prefix === "font" && value === "normal") {
+    style.fontWeight = 400;
+  } else if (prefix === "font" && arbitraryValue(value) != null) {
+    style.fontFamily = (arbitraryValue(value) ?? "").replace(/^['"]|['"]$/g, "");
+  } else if (prefix === "font" && (value === "sans" || value === "mono" || value === "serif")) {
+    if (value !== "sans") ctx.unknownClasses.add(cls);
+  } else if (prefix === "leading" && LEADING_RATIOS[value] != null) {
+    style.lineHeightRatio = LEADING_RATIOS[value];
+    style.lineHeight = undefined;
+  } else if (prefix === "leading" && spacingValue(value) != null) {
+    style.lineHeight = spacingValue(value);
+    style.lineHeightRatio = undefined;
+  } else if (prefix === "opacity" && /^\d+$/.test(value)) {
+    style.opacity = Number(value) / 100;
+  } else if (!["relative", "shrink-0", "flex-shrink-0", "overflow-hidden", "truncate", "antialiased", "transition-colors"].includes(cls)) {
+    ctx.unknownClasses.add(cls);
+  }
+}
+
+function applyInlineStyle(style: MarkupStyle, property: string, value: string, ctx: MarkupContext): void {
+  const prop = property.replace(/[A-Z]/g, (ch) => `-${ch.toLowerCase()}`);
+  const text = value.trim();
+  const lengths = text.split(/\s+/).map((part) => cssLength(part));
+  switch (prop) {
+    case "display":
+      style.display = text.includes("flex") ? "flex" : text === "none" ? "none" : text.startsWith("inline") ? "inline" : "block";
+      break;
+    case "flex-direction":
+      style.direction = text.startsWith("column") ? "column" : "row";
+      break;
+    case "flex-wrap":
+      style.wrap = text === "wrap";
+      break;
+    case "flex":
+    case "flex-grow":
+      style.grow = text !== "none" && !text.startsWith("0");
+      break;
+    case "align-self":
+      style.stretch = text === "stretch";
+      break;
+    case "justify-content":
+      style.justify = text === "start" ? "flex-start" : text === "end" ? "flex-end" : text;
+      break;
+    case "align-items":
+      style.align = text === "start" ? "flex-start" : text === "end" ? "flex-end" : text;
+      break;
+    case "gap":
+      style.gapY = lengths[0];
+      style.gapX = lengths[1] ?? lengths[0];
+      break;
+    case "column-gap":
+      style.gapX = lengths[0];
+      break;
+    case "row-gap":
+      style.gapY = lengths[0];
+      break;
+    case "padding": {
+      const [top, right = top, bottom = top, left = right] = lengths;
+      if (top != null) style.padding = [top, right ?? 0, bottom ?? 0, left ?? 0];
+      break;
+    }
+    case "padding-top":
+    case "padding-right":
+    case "padding-bottom":
+    case "padding-left":
+      if (lengths[0] != null) setPadding(style, [["top", "right", "bottom", "left"].indexOf(prop.slice(8))], lengths[0]);
+      break;
+    case "width":
+    case "height": {
+      const key = prop as "width" | "height";
+      if (text === "100%") style[key === "width" ? "fullWidth" : "fullHeight"] = true;
+      else if (lengths[0] != null) style[key] = lengths[0];
+      break;
+    }
+    case "background":
+    case "background-color":
+      style.background = parseCssColor(text);
+      break;
+    case "color":
+      style.color = parseCssColor(text);
+      break;
+    case "border": {
+      if (text === "none" || text === "0") break;
+      const width = text.split(/\s+/).map((part) => cssLength(part)).find((length) => length != null);
+      style.borderWidth = width ?? 1;
+      style.borderColor = parseCssColor(text.split(/\s+/).slice(-1)[0] ?? "");
+      break;
+    }
+    case "border-width":
+      style.borderWidth = lengths[0];
+      break;
+    case "border-color":
+      style.borderColor = parseCssColor(text);
+      break;
+    case "border-radius":
+      style.radius = lengths[0];
+      break;
+    case "box-shadow":
+      style.shadow = text;
+      break;
+    case "opacity":
+      style.opacity = Number(text);
+      break;
+    case "font-size":
+      style.fontSize = lengths[0];
+      break;
+    case "font-weight":
+      style.fontWeight = text === "bold" ? 700 : text === "normal" ? 400 : Number(text) || undefined;
+      break;
+    case "font-family":
+      style.fontFamily = text.split(",")[0].replace(/['"]/g, "").trim();
+      break;
+    case "line-height":
+      if (/^[\d.]+$/.test(text)) style.lineHeightRatio = Number(text);
+      else style.lineHeight = lengths[0];
+      break;
+    case "text-align":
+      style.textAlign = text === "left" || text === "start" ? undefined : text;
+      break;
+    case "text-transform":
+      style.textCase = text === "uppercase" ? "UPPER" : text === "lowercase" ? "LOWER" : text === "capitalize" ? "TITLE" : undefined;
+      break;
+    case "text-decoration":
+      style.textDecoration = text.includes("underline") ? "UNDERLINE" : text.includes("line-through") ? "STRIKETHROUGH" : undefined;
+      break;
+    default:
+      ctx.unknownClasses.add(`${prop}: ${text}`);
+  }
+}
+
+function elementStyle(element: MarkupElement, ctx: MarkupContext): MarkupStyle {
+  const style: MarkupStyle = {};
+  const tag = element.tag.toLowerCase();
+  if (INLINE_TAGS.has(tag)) style.display = "inline";
+  if (tag === "button") {
+    style.align = "center";
+    style.justify = "center";
+  }
+  if (tag === "input") style.align = "center";
+
+  const classAttr = element.attrs.className ?? element.attrs.class ?? "";
+  const classes = classAttr.startsWith("{") ? stringLiterals(classAttr).join(" ") : classAttr;
+  for (const className of classes.split(/\s+/).filter(Boolean)) applyTailwindClass(style, className, ctx);
+
+  const inline = element.attrs.style ?? "";
+  if (inline.startsWith("{")) {
+    for (const match of inline.matchAll(/["']?([\w-]+)["']?\s*:\s*("[^"]*"|'[^']*'|-?[\d.]+)/g)) {
+      const raw = match[2].replace(/^["']|["']$/g, "");
+      const unitless = ["opacity", "fontWeight", "lineHeight", "flex", "flexGrow"].includes(match[1]);
+      applyInlineStyle(style, match[1], /^-?[\d.]+$/.test(raw) && !unitless ? `${raw}px` : raw, ctx);
+    }
+  } else {
+    for (const declaration of inline.split(";")) {
+      const colon = declaration.indexOf(":");
+      if (colon > 0) applyInlineStyle(style, declaration.slice(0, colon).trim(), declaration.slice(colon + 1), ctx);
+    }
+  }
+  if (style.direction && !style.display) style.display = "flex";
+  return style;
+}
+
+function inheritTextStyle(parent: TextStyle, own: MarkupStyle): TextStyle {
+  const merged: TextStyle = { ...parent };
+  for (const key of TEXT_STYLE_KEYS) {
+    if (own[key] !== undefined) (merged as Record<string, unknown>)[key] = own[key];
+  }
+  if (own.fontSize !== undefined && own.lineHeight === undefined && own.lineHeightRatio === undefined) {
+    merged.lineHeight = undefined;
+  }
+  return merged;
+}
+
+function isTextOnly(element: MarkupElement): boolean {
+  return element.children.every(
+    (child) =>
+      typeof child === "string" ||
+      (INLINE_TEXT_TAGS.has(child.tag.toLowerCase()) && !child.attrs.className && !child.attrs.class && isTextOnly(child))
+  );
+}
+
+function flattenText(children: MarkupChild[]): string {
+  return children
+    .map((child) => (typeof child === "string" ? child : child.tag.toLowerCase() === "br" ? "\n" : flattenText(child.children)))
+    .join("")
+    .replace(/[ \t\r\f\v]*\n[ \t\r\f\v]*/g, (match) => (match.includes("\n") ? "\n" : " "))
+    .replace(/[ \t]+/g, " ")
+    .split("\n")
+    .map((line) => line.trim())
+    .join("\n")
+    .trim();
+}
+
+function paintSpec(color: CodeColor): JsonObject {
+  return color.alpha < 1 ? { type: "SOLID", color: color.hex, opacity: color.alpha } : { type: "SOLID", color: color.hex };
+}
+
+function textSpec(text: string, style: TextStyle): JsonObject {
+  const fontSize = style.fontSize ?? 16;
+  const lineHeight = style.lineHeight ?? (style.lineHeightRatio ? codeNumber(style.lineHeightRatio * fontSize) : undefined);
+  return {
+    type: "text",
+    text,
+    fontSize,
+    ...(style.fontFamily ? { fontFamily: style.fontFamily } : {}),
+    ...(style.fontWeight ? { fontStyle: FONT_STYLE_NAMES[Math.round(style.fontWeight / 100) * 100] ?? "Regular" } : {}),
+    ...(lineHeight ? { lineHeight } : {}),
+    ...(style.color ? { fills: [paintSpec(style.color)] } : {}),
+    ...(style.textAlign ? { textAlignHorizontal: style.textAlign === "justify" ? "JUSTIFIED" : style.textAlign.toUpperCase() } : {}),
+    ...(style.textCase ? { textCase: style.textCase } : {}),
+    ...(style.textDecoration ? { textDecoration: style.textDecoration } : {}),
+  };
+}
+
+function markupName(element: MarkupElement): string {
+  const { attrs, tag } = element;
+  const label = attrs["data-name"] ?? attrs["aria-label"] ?? attrs.alt ?? attrs.id;
+  if (label && !label.startsWith("{")) return label;
+  if (/^[A-Z]/.test(tag)) return tag;
+  return tag === "div" || tag === "" ? "Frame" : tag[0].toUpperCase() + tag.slice(1);
+}
+
+// Decides FIXED/HUG/FILL for one axis of a child inside an auto-layout parent.
+function childSizing(style: MarkupStyle, axis: "horizontal" | "vertical", parent: ParentLayout, inline: boolean): string {
+  const horizontal = axis === "horizontal";
+  const size = horizontal ? style.width : style.height;
+  const definite = horizontal ? parent.definiteWidth : parent.definiteHeight;
+  if (size != null) return "FIXED";
+  const primary = (parent.direction === "row") === horizontal;
+  const fill =
+    (horizontal ? style.fullWidth : style.fullHeight) ||
+    (primary && style.grow) ||
+    (!primary && (style.stretch || (parent.stretch && !(parent.block && inline))));
+  return fill && definite ? "FILL" : "HUG";
+}
+
+function markupSpec(
+  element: MarkupElement,
+  inherited: TextStyle,
+  parent: ParentLayout | null,
+  rootWidth: number,
+  ctx: MarkupContext
+): JsonObject | null {
+  const tag = element.tag.toLowerCase();
+  const style = elementStyle(element, ctx);
+  if (style.display === "none" || tag === "br") return null;
+  if (/^[A-Z]/.test(element.tag)) ctx.warnings.add(`<${element.tag}> imported from its markup only; props and variants are not resolved.`);
+  const textStyle = inheritTextStyle(inherited, style);
+  const inline = style.display === "inline";
+  const name = markupName(element);
+
+  // FIXED sizing is implied by the width/height the spec already carries.
+  const layoutChild = (spec: JsonObject): JsonObject => {
+    if (!parent) return spec;
+    const horizontal = childSizing(style, "horizontal", parent, inline);
+    const vertical = childSizing(style, "vertical", parent, inline);
+    return {
+      ...spec,
+      ...(horizontal !== "FIXED" ? { layoutSizingHorizontal: horizontal } : {}),
+      ...(vertical !== "FIXED" ? { layoutSizingVertical: vertical } : {}),
+    };
+  };
+  const hasBox = BOX_STYLE_KEYS.some((key) => style[key] !== undefined);
+
+  if (element.source != null) {
+    if (tag !== "svg") return null;
+    let svg = element.source
+      .replace(/\s\{\.\.\.[^}]*\}/g, "")
+      .replace(/\s(className|class)=("[^"]*"|\{[^}]*\})/g, "")
+      .replace(/\s([a-z]+)([A-Z]\w*)=/g, (_match, head: string, tail: string) => ` ${head}${tail.replace(/[A-Z]/g, (ch) => `-${ch.toLowerCase()}`)}=`)
+      .replace(/=\{["']?([^}"']*)["']?\}/g, '="$1"')
+      .replace(/view-box=/g, "viewBox=");
+    if (!/xmlns=/.test(svg)) svg = svg.replace(/^<svg/i, '<svg xmlns="http://www.w3.org/2000/svg"');
+    const width = style.width ?? (Number(element.attrs.width) || 24);
+    const height = style.height ?? (Number(element.attrs.height) || width);
+    return layoutChild({ type: "svg", name: "Icon", svg, width, height });
+  }
+
+  if (tag === "img") {
+    ctx.warnings.add(`${name}: image imported as a placeholder rectangle; fill it with place_image.`);
+    return layoutChild(
+      {
+        type: "rectangle",
+        name,
+        width: style.width ?? (Number(element.attrs.width) || 100),
+        height: style.height ?? (Number(element.attrs.height) || 100),
+        fills: [paintSpec(style.background ?? { hex: "#e4e4e7", alpha: 1 })],
+        ...(style.radius ? { cornerRadius: style.radius } : {}),
+      }
+    );
+  }
+
+  const boxFields: JsonObject = {
+    fills: style.background ? [paintSpec(style.background)] : [],
+    ...(style.borderWidth != null
+      ? { strokes: [paintSpec(style.borderColor ?? { hex: "#e4e4e7", alpha: 1 })], strokeWeight: style.borderWidth, strokeAlign: "INSIDE" }
+      : {}),
+    ...(style.radius ? { cornerRadius: style.radius } : {}),
+    ...(style.shadow ? { effects: shadowEffects(style.shadow) } : {}),
+  };
+  if (style.opacity != null && style.opacity < 1) ctx.warnings.add(`${name}: opacity is not imported.`);
+
+  let children: MarkupChild[] = element.children;
+  if (tag === "input" || tag === "textarea") {
+    const placeholder = element.attrs.value ?? element.attrs.placeholder ?? "";
+    children = placeholder ? [placeholder] : [];
+    if (!element.attrs.value) textStyle.color = { hex: "#71717a", alpha: 1 };
+  }
+
+  const textOnly = isTextOnly({ ...element, children });
+  if (textOnly && !hasBox && children.length > 0 && tag !== "input" && tag !== "textarea") {
+    const text = flattenText(children);
+    if (!text) return null;
+    const spec = textSpec(text, textStyle);
+    if (!parent) return { ...spec, width: rootWidth };
+    return layoutChild(spec);
+  }
+
+  // Block elements stack like a vertical auto-layout; inline ones (buttons, badges) hug in a row.
+  const block = style.display !== "flex" && !inline;
+  const direction = style.display === "flex" ? style.direction ?? "row" : block ? "column" : "row";
+  const row = direction === "row";
+  const isRoot = !parent;
+  // Block roots take the import width so their children can stretch; rows and inline roots hug.
+  const width = style.width ?? (isRoot && !row && !inline ? rootWidth : undefined);
+  const horizontalSizing = parent ? childSizing(style, "horizontal", parent, inline) : width != null ? "FIXED" : "HUG";
+  const verticalSizing = parent ? childSizing(style, "vertical", parent, inline) : style.height != null ? "FIXED" : "HUG";
+  const layout: ParentLayout = {
+    direction,
+    block,
+    stretch: block || (style.display === "flex" && (style.align === undefined || style.align === "stretch")),
+    definiteWidth: horizontalSizing !== "HUG",
+    definiteHeight: verticalSizing !== "HUG",
+  };
+  const align = style.align === "stretch" ? undefined : style.align;
+  const { gapX, gapY } = style;
+
+  const childSpecs: JsonObject[] = [];
+  const textRun: MarkupChild[] = [];
+  const flushText = () => {
+    const text = flattenText(textRun.splice(0));
+    if (text) {
+      const spec = textSpec(text, textStyle);
+      childSpecs.push({ ...spec, layoutSizingHorizontal: layout.definiteWidth && !row && layout.stretch ? "FILL" : "HUG" });
+    }
+  };
+  // Inline runs only merge in normal flow; every child of a flex container is its own item.
+  for (const child of children) {
+    if (typeof child === "string" || (style.display !== "flex" && INLINE_TEXT_TAGS.has(child.tag.toLowerCase()) && isTextOnly(child) && !child.attrs.className && !child.attrs.class)) {
+      textRun.push(child);
+      continue;
+    }
+    flushText();
+    const spec = markupSpec(child, textStyle, layout, rootWidth, ctx);
+    if (spec) childSpecs.push(spec);
+  }
+  flushText();
+
+  const primaryFixed = row ? width != null : style.height != null;
+  const counterFixed = row ? style.height != null : width != null;
+  const spec: JsonObject = {
+    type: "frame",
+    name,
+    layoutMode: row ? "HORIZONTAL" : "VERTICAL",
+    itemSpacing: (row ? gapX : gapY) ?? 0,
+    ...(style.wrap && row ? { layoutWrap: "WRAP", counterAxisSpacing: gapY ?? gapX ?? 0 } : {}),
+    paddingTop: style.padding?.[0] ?? 0,
+    paddingRight: style.padding?.[1] ?? 0,
+    paddingBottom: style.padding?.[2] ?? 0,
+    paddingLeft: style.padding?.[3] ?? 0,
+    ...(style.justify ? { primaryAxisAlignItems: JUSTIFY_FROM_CSS[style.justify] ?? "MIN" } : {}),
+    counterAxisAlignItems: align ? ALIGN_FROM_CSS[align] ?? "MIN" : "MIN",
+    primaryAxisSizingMode: primaryFixed ? "FIXED" : "AUTO",
+    counterAxisSizingMode: counterFixed ? "FIXED" : "AUTO",
+    ...(width != null ? { width } : {}),
+    ...(style.height != null ? { height: style.height } : {}),
+    ...boxFields,
+    children: childSpecs,
+  };
+  if (!parent) return spec;
+  return {
+    ...spec,
+    layoutSizingHorizontal: horizontalSizing,
+    layoutSizingVertical: verticalSizing,
+  };
+}
+
+async function readMarkupFile(filePath: string): Promise<string> {
+  if (!MARKUP_EXTENSIONS.has(path.extname(filePath).toLowerCase())) {
+    throw new Error(`Unsupported markup file ${filePath}: use .html, .htm, .jsx, .tsx, .js, .ts, .vue or .svelte.`);
+  }
+  const resolved = await resolveLocalPath(filePath);
+  const { size } = await fs.promises.stat(resolved);
+  if (size > MARKUP_MAX_FILE_BYTES) {
+    throw new Error(`Markup file ${filePath} is ${Math.ceil(size / 1024)} KB; the limit is ${MARKUP_MAX_FILE_BYTES / 1024} KB.`);
+  }
+  return fs.promises.readFile(resolved, "utf8");
+}
+
+async function importMarkup(params: JsonObject, turnId?: string): Promise<unknown> {
+  const filePath = typeof params.filePath === "string" ? params.filePath.trim() : "";
+  const markup = filePath
+    ? await readMarkupFile(filePath)
+    : typeof params.markup === "string" ? params.markup : "";
+  if (!markup.trim()) throw new Error("Pass markup (HTML or JSX) or a filePath to read it from.");
+
+  const ctx: MarkupContext = { warnings: new Set(), unknownClasses: new Set() };
+  const roots = parseMarkup(markup, ctx.warnings);
+  const rootWidth = typeof params.width === "number" && params.width > 0 ? params.width : MARKUP_DEFAULT_WIDTH;
+  const root: MarkupElement =
+    roots.length === 1 ? roots[0] : { tag: "div", attrs: { "data-name": "Imported markup" }, children: roots };
+  const spec = markupSpec(root, {}, null, rootWidth, ctx);
+  if (!spec) throw new Error("Markup has no visible content to import.");
+  const componentName = /(?:function|const)\s+([A-Z]\w*)/.exec(markup)?.[1];
+  if (typeof params.name === "string" && params.name.trim()) spec.name = params.name.trim();
+  else if (componentName && spec.type === "frame") spec.name = componentName;
+  if (typeof params.x === "number") spec.x = params.x;
+  if (typeof params.y === "number") spec.y = params.y;
+
+  const { markup: _markup, filePath: _filePath, width: _width, name: _name, x: _x, y: _y, ...target } = params;
+  const result = await sendToPlugin(makeRequestId("markup"), "create_from_spec", { ...target, spec }, turnId);
+
+  const warnings = [...ctx.warnings];
+  if (ctx.unknownClasses.size > 0) {
+    warnings.push(`Ignored unsupported classes or styles: ${[...ctx.unknownClasses].slice(0, 30).join(", ")}.`);
+  }
+  const summary = result != null && typeof result === "object" ? (result as JsonObject) : { result };
+  return { ...summary, warnings: warnings.slice(0, MARKUP_MAX_WARNINGS) };
+}
+
+async function runTool(tool: string, params: JsonObject, turnId?: string): Promise<unknown> {
+  if (tool === "generate_code") return generateCode(params);
+  if (tool === "import_markup") return importMarkup(params, turnId);
+
   const id = makeRequestId("chat-tool");
-  return sendToPlugin(id, tool, params);
+  const result = await sendToPlugin(id, tool, await prepareToolParams(tool, params), turnId);
+
+  const outputPath = typeof params.outputPath === "string" ? params.outputPath.trim() : "";
+  if (tool === "export_node" && outputPath && isExportedAsset(result)) {
+    result.savedTo = await writeExportedAsset(result, outputPath, params.overwrite === true);
+  }
+  return result;
 }
 
-async function runLocalAgent(message: string): Promise<{ assistant: string; toolCalls: ExecutedToolCall[] }> {
+// Chat providers get asset metadata only; base64 payloads would swamp the model context.
+function compactToolResult(result: unknown): unknown {
+  if (!isExportedAsset(result)) return result;
+  const { base64: _base64, ...meta } = result;
+  return meta;
+}
+
+async function runChatTool(tool: string, params: JsonObject, turnId: string): Promise<unknown> {
+  return compactToolResult(await runTool(tool, params, turnId));
+}
+
+function toolResultContent(result: unknown): ToolContent[] {
+  if (isGeneratedCode(result)) {
+    const { code, css, ...meta } = result;
+    return [
+      { type: "text", text: JSON.stringify(meta, null, 2) },
+      { type: "text", text: code },
+      ...(css ? [{ type: "text" as const, text: css }] : []),
+    ];
+  }
+  if (!isExportedAsset(result)) {
+    return [{ type: "text", text: JSON.stringify(result, null, 2) }];
+  }
+
+  const { base64, ...meta } = result;
+  if (result.format === "PNG" || result.format === "JPG") {
+    return [
+      { type: "text", text: JSON.stringify(meta, null, 2) },
+      { type: "image", data: base64, mimeType: result.mimeType },
+    ];
+  }
+  if (result.format === "SVG") {
+    return [
+      { type: "text", text: JSON.stringify(meta, null, 2) },
+      { type: "text", text: Buffer.from(base64, "base64").toString("utf8") },
+    ];
+  }
+  return [{ type: "text", text: JSON.stringify(result.savedTo ? meta : result, null, 2) }];
+}
+
+async function runLocalAgent(message: string, turnId: string): Promise<{ assistant: string; toolCalls: ExecutedToolCall[] }> {
   const lower = message.toLowerCase();
   const plannedCalls: Array<{ tool: string; params: JsonObject }> = [];
 
-  if (lower.includes("landing")) {
+  if (pluginEditorType === "figjam") {
+    plannedCalls.push({ tool: "create_sticky", params: { text: message, color: "yellow" } });
+  } else if (lower.includes("landing")) {
     plannedCalls.push({
       tool: "create_frame",
       params: {
@@ -435,7 +3409,7 @@ async function runLocalAgent(message: string): Promise<{ assistant: string; tool
   const toolCalls: ExecutedToolCall[] = [];
   for (const call of plannedCalls) {
     try {
-      const result = await runTool(call.tool, call.params);
+      const result = await runChatTool(call.tool, call.params, turnId);
       toolCalls.push({ tool: call.tool, params: call.params, result });
     } catch (err) {
       const messageText = err instanceof Error ? err.message : String(err);
@@ -509,7 +3483,8 @@ async function runOpenAIAgent(
   message: string,
   conversation: ChatMessage[],
   model: string,
-  apiKey: string
+  apiKey: string,
+  turnId: string
 ): Promise<{ assistant: string; toolCalls: ExecutedToolCall[] }> {
   const safeConversation = conversation.slice(-20).filter((m) => m.content && (m.role === "user" || m.role === "assistant"));
   const input = [
@@ -520,9 +3495,10 @@ async function runOpenAIAgent(
   let response = await createOpenAIResponse(apiKey, {
     model,
     instructions:
-      "You are CursorCanvas. Execute design requests by calling tools. Keep assistant text concise. Prefer practical UI composition.",
+      "You are CursorCanvas. Execute design requests by calling tools. Keep assistant text concise. Prefer practical UI composition. Build whole screens or components with a single create_from_spec call instead of many create_* calls." +
+      (liveState.selection ? `\nCurrent Figma selection: ${JSON.stringify(liveState.selection)}` : ""),
     input,
-    tools: OPENAI_TOOLS,
+    tools: openAITools(),
     tool_choice: "auto",
   });
 
@@ -538,7 +3514,7 @@ async function runOpenAIAgent(
     for (const call of calls) {
       const args = parseJsonSafe<JsonObject>(call.arguments, {});
       try {
-        const result = await runTool(call.name, args);
+        const result = await runChatTool(call.name, args, turnId);
         toolCalls.push({ tool: call.name, params: args, result });
         outputs.push({
           type: "function_call_output",
@@ -560,7 +3536,7 @@ async function runOpenAIAgent(
       model,
       previous_response_id: response.id,
       input: outputs,
-      tools: OPENAI_TOOLS,
+      tools: openAITools(),
       tool_choice: "auto",
     });
   }
@@ -569,10 +3545,28 @@ async function runOpenAIAgent(
   return { assistant, toolCalls };
 }
 
+// Brackets one agent run with plugin undo boundaries so the whole turn is a single Figma undo step.
+// Provider and model are stamped onto every node the turn creates or modifies.
+async function runAgentTurn<T>(
+  source: { provider: string; model?: string },
+  run: (turnId: string) => Promise<T>
+): Promise<{ turnId: string; result: T }> {
+  const turnId = makeRequestId("turn");
+  await sendToPlugin(makeRequestId("turn-begin"), "begin_turn", { turnId, ...source });
+  try {
+    return { turnId, result: await run(turnId) };
+  } finally {
+    await sendToPlugin(makeRequestId("turn-end"), "end_turn", { turnId }).catch((err) => {
+      console.error(`CursorCanvas: could not close turn ${turnId}:`, err instanceof Error ? err.message : err);
+    });
+  }
+}
+
 async function handleChatRequest(payload: ChatRequest): Promise<{
   assistant: string;
   provider: string;
   model?: string;
+  turnId?: string;
   toolCalls: ExecutedToolCall[];
 }> {
   const provider = (payload.provider ?? "local").toLowerCase();
@@ -581,8 +3575,8 @@ async function handleChatRequest(payload: ChatRequest): Promise<{
   if (!pluginBridgeReady()) throw new Error("Figma plugin is not connected. Click Connect in CursorCanvas first.");
 
   if (provider === "local") {
-    const local = await runLocalAgent(message);
-    return { assistant: local.assistant, provider, toolCalls: local.toolCalls };
+    const { turnId, result: local } = await runAgentTurn({ provider }, (id) => runLocalAgent(message, id));
+    return { assistant: local.assistant, provider, turnId, toolCalls: local.toolCalls };
   }
 
   if (provider === "openai") {
@@ -592,8 +3586,10 @@ async function handleChatRequest(payload: ChatRequest): Promise<{
     }
     const model = payload.model?.trim() || "gpt-5-mini";
     const conversation = Array.isArray(payload.conversation) ? payload.conversation : [];
-    const result = await runOpenAIAgent(message, conversation, model, apiKey);
-    return { assistant: result.assistant, provider, model, toolCalls: result.toolCalls };
+    const { turnId, result } = await runAgentTurn({ provider, model }, (id) =>
+      runOpenAIAgent(message, conversation, model, apiKey, id)
+    );
+    return { assistant: result.assistant, provider, model, turnId, toolCalls: result.toolCalls };
   }
 
   if (provider === "cursor" || provider === "lovable") {
@@ -627,8 +3623,8 @@ const httpServer = http.createServer(async (req, res) => {
   }
 
   if (req.method === "GET" && (url === "/poll" || url === "/")) {
-    if (httpCommandQueue.length > 0) {
-      const cmd = httpCommandQueue.shift()!;
+    const cmd = nextHttpCommand();
+    if (cmd) {
       writeJson(res, 200, cmd);
     } else {
       waitingGetRes = res;
@@ -660,6 +3656,13 @@ const httpServer = http.createServer(async (req, res) => {
     return;
   }
 
+  if (req.method === "POST" && url === "/plugin-message") {
+    const body = await readBody(req);
+    handlePluginMessage(parseJsonSafe<{ type?: string }>(body, {}));
+    writeJson(res, 200, {});
+    return;
+  }
+
   if (req.method === "POST" && url === "/chat") {
     const body = await readBody(req);
     const payload = parseJsonSafe<ChatRequest>(body, {});
@@ -729,6 +3732,10 @@ function tryPortPair(wsPort: number, httpPort: number): void {
             const msg = JSON.parse(data.toString()) as {
               type?: string;
               text?: string;
+              editorType?: string;
+              unavailableTools?: unknown;
+              event?: string;
+              data?: unknown;
               id?: string;
               result?: unknown;
               error?: string;
@@ -738,6 +3745,7 @@ function tryPortPair(wsPort: number, httpPort: number): void {
               lastFigmaPrompt = msg.text.trim() || null;
               return;
             }
+            if (handlePluginMessage(msg)) return;
             if (msg.id && pending.has(msg.id)) {
               const request = pending.get(msg.id)!;
               pending.delete(msg.id);
@@ -772,14 +3780,36 @@ const mcpServer = new Server(
     version: "0.2.0",
   },
   {
-    capabilities: { tools: {} },
+    capabilities: { tools: { listChanged: true }, resources: { subscribe: true } },
   }
 );
 
 mcpServer.setRequestHandler(ListToolsRequestSchema, async () => ({
-  tools: TOOL_SPECS,
+  tools: availableTools(),
+}));
+
+mcpServer.setRequestHandler(ListResourcesRequestSchema, async () => ({
+  resources: LIVE_RESOURCES,
 }));
 
+mcpServer.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  const { uri } = request.params;
+  return {
+    contents: [{ uri, mimeType: "application/json", text: JSON.stringify(liveResourceValue(uri), null, 2) }],
+  };
+});
+
+mcpServer.setRequestHandler(SubscribeRequestSchema, async (request) => {
+  liveResourceValue(request.params.uri);
+  resourceSubscriptions.add(request.params.uri);
+  return {};
+});
+
+mcpServer.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+  resourceSubscriptions.delete(request.params.uri);
+  return {};
+});
+
 mcpServer.setRequestHandler(CallToolRequestSchema, async (request) => {
   const { name, arguments: args } = request.params;
   const params = (args as JsonObject) ?? {};
@@ -801,9 +3831,7 @@ mcpServer.setRequestHandler(CallToolRequestSchema, async (request) => {
 
   try {
     const result = await runTool(name, params);
-    return {
-      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-    };
+    return { content: toolResultContent(result) };
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
     return {